@@ -0,0 +1,104 @@
+import { readFileSync } from "node:fs";
+
+export interface AccountConfig {
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+}
+
+export interface AccountSettings {
+  accounts: AccountConfig[];
+  defaultAccount: string;
+}
+
+interface PartialAccount {
+  name?: string;
+  clientId?: string;
+  clientSecret?: string;
+  refreshToken?: string;
+}
+
+// GOOGLE_ACCOUNTS_FILE holds {"defaultAccount": "work", "accounts": {"work":
+// {"refreshToken": "..."}, "ops": {...}}}; clientId and clientSecret may be
+// left out to use GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET.
+function readAccountsFile(path: string) {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Could not read accounts file ${path}: ${error.message}`);
+  }
+
+  const entries: PartialAccount[] = Array.isArray(parsed.accounts)
+    ? parsed.accounts
+    : Object.entries(parsed.accounts || {}).map(([name, account]) => ({
+        ...(account as PartialAccount),
+        name,
+      }));
+  return { entries, defaultAccount: parsed.defaultAccount as string };
+}
+
+// GOOGLE_ACCOUNT_1_NAME, GOOGLE_ACCOUNT_1_REFRESH_TOKEN and optionally
+// GOOGLE_ACCOUNT_1_CLIENT_ID / _CLIENT_SECRET, then _2_, _3_ and so on.
+function readIndexedAccounts(env: NodeJS.ProcessEnv) {
+  const entries: PartialAccount[] = [];
+  for (let index = 1; env[`GOOGLE_ACCOUNT_${index}_REFRESH_TOKEN`]; index++) {
+    entries.push({
+      name: env[`GOOGLE_ACCOUNT_${index}_NAME`] || `account${index}`,
+      refreshToken: env[`GOOGLE_ACCOUNT_${index}_REFRESH_TOKEN`],
+      clientId: env[`GOOGLE_ACCOUNT_${index}_CLIENT_ID`],
+      clientSecret: env[`GOOGLE_ACCOUNT_${index}_CLIENT_SECRET`],
+    });
+  }
+  return entries;
+}
+
+export function loadAccountSettings(env: NodeJS.ProcessEnv): AccountSettings {
+  const file = env.GOOGLE_ACCOUNTS_FILE
+    ? readAccountsFile(env.GOOGLE_ACCOUNTS_FILE)
+    : undefined;
+  const entries = [...(file?.entries || []), ...readIndexedAccounts(env)];
+
+  // The original single-account variables keep working as "default"
+  if (env.GOOGLE_REFRESH_TOKEN) {
+    entries.push({ name: "default", refreshToken: env.GOOGLE_REFRESH_TOKEN });
+  }
+
+  const accounts: AccountConfig[] = [];
+  for (const entry of entries) {
+    const name = entry.name?.trim();
+    const clientId = entry.clientId || env.GOOGLE_CLIENT_ID;
+    const clientSecret = entry.clientSecret || env.GOOGLE_CLIENT_SECRET;
+    if (!name || !entry.refreshToken || !clientId || !clientSecret) {
+      throw new Error(
+        `Account ${
+          name || "(unnamed)"
+        } needs a name, refresh token, client ID and client secret`
+      );
+    }
+    if (accounts.some((account) => account.name === name)) {
+      throw new Error(`Account ${name} is configured more than once`);
+    }
+    accounts.push({
+      name,
+      clientId,
+      clientSecret,
+      refreshToken: entry.refreshToken,
+    });
+  }
+
+  if (!accounts.length) {
+    throw new Error(
+      "Required Google OAuth credentials not found in environment variables"
+    );
+  }
+
+  const defaultAccount =
+    env.GOOGLE_DEFAULT_ACCOUNT || file?.defaultAccount || accounts[0].name;
+  if (!accounts.some((account) => account.name === defaultAccount)) {
+    throw new Error(`Default account ${defaultAccount} is not configured`);
+  }
+
+  return { accounts, defaultAccount };
+}
@@ -0,0 +1,102 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+// What a handler reports about its own write: the state it replaced and the
+// IDs it produced.
+export interface AuditDetails {
+  before?: any;
+  resultIds?: Record<string, unknown>;
+}
+
+export interface AuditEntry extends AuditDetails {
+  id: string;
+  timestamp: string;
+  account: string;
+  tool: string;
+  arguments: unknown;
+  isError: boolean;
+  result: string;
+}
+
+export const DEFAULT_AUDIT_LOG = join(
+  homedir(),
+  ".google-workspace-mcp",
+  "audit.jsonl"
+);
+
+// Tools whose writes undo_action knows how to reverse
+export const REVERSIBLE_TOOLS = [
+  "modify_email",
+  "batch_modify_emails",
+  "update_event",
+  "respond_to_event",
+  "create_label",
+  "update_label",
+];
+
+const MAX_RESULT_LENGTH = 2000;
+
+// Attachment data would bloat the log, so only its size is kept. A
+// confirmation token is a credential until it expires, so it is left out.
+export function sanitizeArguments(args: any) {
+  const { confirmationToken, ...rest } = args || {};
+  if (!Array.isArray(rest.attachments)) return rest;
+  return {
+    ...rest,
+    attachments: rest.attachments.map((attachment: any) =>
+      attachment?.content
+        ? {
+            ...attachment,
+            content: `[${String(attachment.content).length} base64 characters]`,
+          }
+        : attachment
+    ),
+  };
+}
+
+export function truncateResult(text: string) {
+  return text.length > MAX_RESULT_LENGTH
+    ? `${text.slice(0, MAX_RESULT_LENGTH)}…`
+    : text;
+}
+
+export async function appendAuditEntry(path: string, entry: AuditEntry) {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, `${JSON.stringify(entry)}\n`);
+}
+
+export async function readAuditLog(path: string): Promise<AuditEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw new Error(`Could not read audit log ${path}: ${error.message}`);
+  }
+
+  return content
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+// Label changes can only be undone from a snapshot of the previous labels.
+// Inverting the change instead would also strip labels that some messages
+// already had, so batches too large to snapshot are not reversible.
+export function isReversible(entry: AuditEntry) {
+  if (entry.isError || !REVERSIBLE_TOOLS.includes(entry.tool)) return false;
+  if (["modify_email", "batch_modify_emails"].includes(entry.tool)) {
+    return !!entry.before?.labels;
+  }
+  return true;
+}
+
+// IDs of entries that a later, successful undo_action reversed
+export function undoneEntryIds(entries: AuditEntry[]) {
+  return new Set(
+    entries
+      .filter((entry) => entry.tool === "undo_action" && !entry.isError)
+      .map((entry) => String(entry.resultIds?.undoOf))
+  );
+}
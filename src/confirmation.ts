@@ -0,0 +1,67 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomBytes } from "node:crypto";
+
+// Serializes with sorted object keys so the same arguments always hash the
+// same, whatever order the client sent them in.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// Binds a confirmation to the tool, the account and every argument except
+// the token itself, so any edit after the preview invalidates it.
+export function payloadHash(tool: string, account: string, args: any) {
+  const { confirmationToken, ...payload } = args || {};
+  return createHash("sha256")
+    .update(canonicalJson({ tool, account, payload }))
+    .digest("hex");
+}
+
+export class ConfirmationStore {
+  private pending = new Map<string, { hash: string; expiresAt: number }>();
+
+  constructor(private ttlSeconds: number) {}
+
+  issue(hash: string) {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+
+    const token = randomBytes(18).toString("base64url");
+    const expiresAt = now + this.ttlSeconds * 1000;
+    this.pending.set(token, { hash, expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  // Tokens are single use: redeeming one removes it whether or not it
+  // matches.
+  redeem(token: string, hash: string) {
+    const entry = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Confirmation token is unknown, already used or expired. Call the tool again without confirmationToken to get a new preview"
+      );
+    }
+    if (entry.hash !== hash) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "The arguments changed after the preview was shown, so the confirmation token no longer applies. Call the tool again without confirmationToken to preview the new request"
+      );
+    }
+  }
+}
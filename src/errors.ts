@@ -0,0 +1,335 @@
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+// Stable codes a client can branch on, whatever wording Google uses
+export type ToolErrorCode =
+  | "AUTH_EXPIRED"
+  | "INVALID_CLIENT"
+  | "UNAUTHENTICATED"
+  | "INSUFFICIENT_SCOPE"
+  | "API_DISABLED"
+  | "PERMISSION_DENIED"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "NOT_FOUND"
+  | "INVALID_ARGUMENT"
+  | "CONFLICT"
+  | "GONE"
+  | "PRECONDITION_FAILED"
+  | "BACKEND_ERROR"
+  | "NETWORK_ERROR"
+  | "POLICY_VIOLATION"
+  | "GOOGLE_API_ERROR"
+  | "TOOL_ERROR";
+
+export interface ToolErrorDetails {
+  code: ToolErrorCode;
+  retryable: boolean;
+  status?: number;
+  // Google's own reason, e.g. rateLimitExceeded or insufficientPermissions
+  reason?: string;
+  retries?: number;
+  hint?: string;
+}
+
+const SCOPE_PREFIX = "https://www.googleapis.com/auth/";
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+];
+
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+const QUOTA_REASONS = ["quotaExceeded", "dailyLimitExceeded"];
+const SCOPE_REASONS = [
+  "insufficientPermissions",
+  "ACCESS_TOKEN_SCOPE_INSUFFICIENT",
+];
+const API_DISABLED_REASONS = ["accessNotConfigured", "SERVICE_DISABLED"];
+
+// Requests without a response, or answered with a server error, may still
+// have taken effect, so only methods that are safe to repeat are retried.
+// A rate limit rejects the request outright, so any method retries on one.
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "PATCH", "DELETE"];
+
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 16000;
+// A longer Retry-After is reported to the caller instead of waited out
+const MAX_RETRY_AFTER_MS = 60000;
+
+// The OAuth scope a failed request needed, going by the endpoint it called
+function requiredScope(url: string) {
+  if (url.includes("/calendar/")) return `${SCOPE_PREFIX}calendar`;
+  if (/\/(messages|drafts)\/send/.test(url)) return `${SCOPE_PREFIX}gmail.send`;
+  return `${SCOPE_PREFIX}gmail.modify`;
+}
+
+function apiName(url: string) {
+  return url.includes("/calendar/") ? "Google Calendar API" : "Gmail API";
+}
+
+function details(
+  code: ToolErrorCode,
+  retryable: boolean,
+  hint?: string
+): Omit<ToolErrorDetails, "status" | "reason" | "retries"> {
+  return hint ? { code, retryable, hint } : { code, retryable };
+}
+
+// Maps an error from googleapis (a GaxiosError), the OAuth token endpoint or
+// this server itself onto a stable code with a hint on what to do about it.
+export function classifyError(
+  error: any
+): ToolErrorDetails & { message: string } {
+  if (error instanceof McpError) {
+    const rule = (error.data as any)?.policy;
+    return {
+      message: error.message,
+      ...(rule
+        ? details("POLICY_VIOLATION", rule === "tools.rateLimit")
+        : details("INVALID_ARGUMENT", false)),
+    };
+  }
+
+  const response = error?.response;
+  const status: number | undefined =
+    response?.status ??
+    error?.status ??
+    (typeof error?.code === "number" ? error.code : undefined);
+  const data = response?.data;
+  const apiError = data && typeof data.error === "object" ? data.error : {};
+  const oauthError = typeof data?.error === "string" ? data.error : undefined;
+  const reason: string | undefined =
+    apiError.errors?.find((entry: any) => entry.reason)?.reason ??
+    apiError.details?.find((entry: any) => entry.reason)?.reason ??
+    oauthError;
+  const message: string =
+    apiError.message ||
+    data?.error_description ||
+    error?.message ||
+    String(error);
+  const url = String(error?.config?.url || "");
+  const retries = error?.config?.retryConfig?.currentRetryAttempt || undefined;
+
+  const classified = (() => {
+    if (oauthError === "invalid_grant") {
+      return details(
+        "AUTH_EXPIRED",
+        false,
+        "The refresh token has expired or been revoked. Run `node get-refresh-token.js` again and update the account's refresh token"
+      );
+    }
+    if (
+      oauthError === "invalid_client" ||
+      oauthError === "unauthorized_client"
+    ) {
+      return details(
+        "INVALID_CLIENT",
+        false,
+        "Check the OAuth client ID and secret, and that the refresh token was issued for that client"
+      );
+    }
+    if (status === undefined) {
+      return NETWORK_ERROR_CODES.includes(error?.code) ||
+        error?.name === "FetchError"
+        ? details(
+            "NETWORK_ERROR",
+            true,
+            "Google could not be reached; check the network connection"
+          )
+        : details("TOOL_ERROR", false);
+    }
+
+    if (RATE_LIMIT_REASONS.includes(reason!) || status === 429) {
+      if (QUOTA_REASONS.includes(reason!)) {
+        return details(
+          "QUOTA_EXCEEDED",
+          false,
+          "The project's quota is used up; check the quotas in Google Cloud Console"
+        );
+      }
+      return details(
+        "RATE_LIMITED",
+        true,
+        "Google is throttling requests; wait a little before calling again"
+      );
+    }
+
+    switch (status) {
+      case 400:
+        return details("INVALID_ARGUMENT", false);
+      case 401:
+        return details(
+          "UNAUTHENTICATED",
+          false,
+          "The credentials were rejected. Run `node get-refresh-token.js` again and update the account's refresh token"
+        );
+      case 403:
+        if (
+          SCOPE_REASONS.includes(reason!) ||
+          /insufficient authentication scopes/i.test(message)
+        ) {
+          return details(
+            "INSUFFICIENT_SCOPE",
+            false,
+            `The refresh token was not granted ${requiredScope(
+              url
+            )}. Run \`node get-refresh-token.js\` again, approve every requested scope and update the account's refresh token`
+          );
+        }
+        if (API_DISABLED_REASONS.includes(reason!)) {
+          return details(
+            "API_DISABLED",
+            false,
+            `Enable the ${apiName(url)} for the project in Google Cloud Console`
+          );
+        }
+        if (QUOTA_REASONS.includes(reason!)) {
+          return details(
+            "QUOTA_EXCEEDED",
+            false,
+            "The project's quota is used up; check the quotas in Google Cloud Console"
+          );
+        }
+        return details(
+          "PERMISSION_DENIED",
+          false,
+          "The account has no access to this resource, for example a calendar shared with it read-only"
+        );
+      case 404:
+        return details(
+          "NOT_FOUND",
+          false,
+          "Check the ID; the list and search tools return valid ones"
+        );
+      case 409:
+        return details("CONFLICT", false);
+      case 410:
+        return details("GONE", false);
+      case 412:
+        return details(
+          "PRECONDITION_FAILED",
+          false,
+          "The resource changed in the meantime; fetch it again and retry"
+        );
+    }
+
+    return status >= 500
+      ? details(
+          "BACKEND_ERROR",
+          true,
+          "Google had a temporary problem; try again shortly"
+        )
+      : details("GOOGLE_API_ERROR", false);
+  })();
+
+  // A send or insert that failed this way may have gone through anyway.
+  // Token refreshes are POSTs too, but never change anything.
+  const method = String(error?.config?.method || "GET").toUpperCase();
+  if (
+    (classified.code === "BACKEND_ERROR" ||
+      classified.code === "NETWORK_ERROR") &&
+    !IDEMPOTENT_METHODS.includes(method) &&
+    !url.includes("oauth2.googleapis.com")
+  ) {
+    classified.hint = `${classified.hint}. The request may still have taken effect, so check before repeating it`;
+  }
+
+  return {
+    message,
+    ...classified,
+    status,
+    ...(reason ? { reason } : {}),
+    ...(retries ? { retries } : {}),
+  };
+}
+
+// The tool result for a failed call: the message and hint as text, then the
+// details as JSON for clients that act on the code.
+export function errorResult(context: string, error: any) {
+  const { message, ...errorDetails } = classifyError(error);
+  logger.warning("tools", `${context}: ${message}`, errorDetails);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${context}: ${message}${
+          errorDetails.hint ? `\nHint: ${errorDetails.hint}` : ""
+        }`,
+      },
+      {
+        type: "text",
+        text: JSON.stringify({ error: errorDetails }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(error: any) {
+  const header = error?.response?.headers?.["retry-after"];
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function shouldRetry(error: any) {
+  const config = error?.config?.retryConfig;
+  if (!config || (config.currentRetryAttempt || 0) >= config.retry) {
+    return false;
+  }
+  if (error.name === "AbortError") return false;
+
+  const { code } = classifyError(error);
+  const method = String(error.config.method || "GET").toUpperCase();
+  if (code === "RATE_LIMITED") {
+    return (retryAfterMs(error) ?? 0) <= MAX_RETRY_AFTER_MS;
+  }
+  if (code === "BACKEND_ERROR" || code === "NETWORK_ERROR") {
+    return IDEMPOTENT_METHODS.includes(method);
+  }
+  return false;
+}
+
+// Exponential backoff with jitter, so clients throttled together do not
+// retry together, unless Google said how long to wait.
+function retryDelay(error: any) {
+  const retryAfter = retryAfterMs(error);
+  if (retryAfter !== undefined) return retryAfter + Math.random() * 250;
+
+  const attempt = error?.config?.retryConfig?.currentRetryAttempt || 1;
+  const ceiling = Math.min(
+    MAX_RETRY_DELAY_MS,
+    BASE_RETRY_DELAY_MS * 2 ** (attempt - 1)
+  );
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+}
+
+// gaxios retry settings for the Gmail and Calendar clients
+export function retryConfig(maxRetries: number) {
+  return {
+    retry: maxRetries,
+    noResponseRetries: maxRetries,
+    httpMethodsToRetry: [...IDEMPOTENT_METHODS, "POST"],
+    shouldRetry,
+    retryBackoff: (error: any) => {
+      const delayMs = Math.round(retryDelay(error));
+      logger.warning("google-api", "Retrying request", {
+        method: error.config?.method,
+        // The query string can hold search terms
+        url: String(error.config?.url || "").split("?")[0],
+        status: error.response?.status ?? error.code,
+        attempt: error.config?.retryConfig?.currentRetryAttempt,
+        delayMs,
+      });
+      return new Promise<void>((resolve) => setTimeout(resolve, delayMs));
+    },
+  };
+}
@@ -0,0 +1,336 @@
+import { DateTime } from "luxon";
+import {
+  findComponents,
+  getProperty,
+  parseICalendar,
+  unescapeText,
+} from "./ics.js";
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+// How a holiday that falls on a weekend is observed:
+// - substitute: the next weekday that is not already a holiday (UK style)
+// - nearestWeekday: Saturday moves to Friday, Sunday to Monday (US style)
+// - sundayToSaturday: only a Sunday moves, to the day before
+type Observance = "substitute" | "nearestWeekday" | "sundayToSaturday";
+
+type HolidayRule =
+  | {
+      type: "fixed";
+      month: number;
+      day: number;
+      name: string;
+      observed?: Observance;
+    }
+  | { type: "easter"; offset: number; name: string }
+  // n counts from the start of the month, or from the end when negative
+  | {
+      type: "nthWeekday";
+      month: number;
+      weekday: number;
+      n: number;
+      name: string;
+    }
+  // the last `weekday` on or before month/day
+  | {
+      type: "weekdayOnOrBefore";
+      month: number;
+      day: number;
+      weekday: number;
+      name: string;
+    };
+
+const fixed = (
+  month: number,
+  day: number,
+  name: string,
+  observed?: Observance
+): HolidayRule => ({ type: "fixed", month, day, name, observed });
+const easter = (offset: number, name: string): HolidayRule => ({
+  type: "easter",
+  offset,
+  name,
+});
+const nth = (
+  month: number,
+  weekday: number,
+  n: number,
+  name: string
+): HolidayRule => ({ type: "nthWeekday", month, weekday, n, name });
+
+const US: HolidayRule[] = [
+  fixed(1, 1, "New Year's Day", "nearestWeekday"),
+  nth(1, 1, 3, "Martin Luther King Jr. Day"),
+  nth(2, 1, 3, "Presidents' Day"),
+  nth(5, 1, -1, "Memorial Day"),
+  fixed(6, 19, "Juneteenth", "nearestWeekday"),
+  fixed(7, 4, "Independence Day", "nearestWeekday"),
+  nth(9, 1, 1, "Labor Day"),
+  nth(10, 1, 2, "Columbus Day"),
+  fixed(11, 11, "Veterans Day", "nearestWeekday"),
+  nth(11, 4, 4, "Thanksgiving Day"),
+  fixed(12, 25, "Christmas Day", "nearestWeekday"),
+];
+
+const GB_ENG: HolidayRule[] = [
+  fixed(1, 1, "New Year's Day", "substitute"),
+  easter(-2, "Good Friday"),
+  easter(1, "Easter Monday"),
+  nth(5, 1, 1, "Early May Bank Holiday"),
+  nth(5, 1, -1, "Spring Bank Holiday"),
+  nth(8, 1, -1, "Summer Bank Holiday"),
+  fixed(12, 25, "Christmas Day", "substitute"),
+  fixed(12, 26, "Boxing Day", "substitute"),
+];
+
+const GB_SCT: HolidayRule[] = [
+  fixed(1, 1, "New Year's Day", "substitute"),
+  fixed(1, 2, "2nd January", "substitute"),
+  easter(-2, "Good Friday"),
+  nth(5, 1, 1, "Early May Bank Holiday"),
+  nth(5, 1, -1, "Spring Bank Holiday"),
+  nth(8, 1, 1, "Summer Bank Holiday"),
+  fixed(11, 30, "St Andrew's Day", "substitute"),
+  fixed(12, 25, "Christmas Day", "substitute"),
+  fixed(12, 26, "Boxing Day", "substitute"),
+];
+
+const DE: HolidayRule[] = [
+  fixed(1, 1, "Neujahr"),
+  easter(-2, "Karfreitag"),
+  easter(1, "Ostermontag"),
+  fixed(5, 1, "Tag der Arbeit"),
+  easter(39, "Christi Himmelfahrt"),
+  easter(50, "Pfingstmontag"),
+  fixed(10, 3, "Tag der Deutschen Einheit"),
+  fixed(12, 25, "1. Weihnachtstag"),
+  fixed(12, 26, "2. Weihnachtstag"),
+];
+
+const BR: HolidayRule[] = [
+  fixed(1, 1, "Confraternização Universal"),
+  easter(-48, "Carnaval"),
+  easter(-47, "Carnaval"),
+  easter(-2, "Sexta-feira Santa"),
+  fixed(4, 21, "Tiradentes"),
+  fixed(5, 1, "Dia do Trabalho"),
+  easter(60, "Corpus Christi"),
+  fixed(9, 7, "Independência do Brasil"),
+  fixed(10, 12, "Nossa Senhora Aparecida"),
+  fixed(11, 2, "Finados"),
+  fixed(11, 15, "Proclamação da República"),
+  fixed(11, 20, "Dia Nacional de Zumbi e da Consciência Negra"),
+  fixed(12, 25, "Natal"),
+];
+
+const REGIONS: Record<string, HolidayRule[]> = {
+  US,
+  GB: GB_ENG,
+  "GB-ENG": GB_ENG,
+  "GB-WLS": GB_ENG,
+  "GB-SCT": GB_SCT,
+  DE,
+  "DE-BY": [
+    ...DE,
+    fixed(1, 6, "Heilige Drei Könige"),
+    easter(60, "Fronleichnam"),
+    fixed(8, 15, "Mariä Himmelfahrt"),
+    fixed(11, 1, "Allerheiligen"),
+  ],
+  "DE-BE": [...DE, fixed(3, 8, "Internationaler Frauentag")],
+  FR: [
+    fixed(1, 1, "Jour de l'an"),
+    easter(1, "Lundi de Pâques"),
+    fixed(5, 1, "Fête du Travail"),
+    fixed(5, 8, "Victoire 1945"),
+    easter(39, "Ascension"),
+    easter(50, "Lundi de Pentecôte"),
+    fixed(7, 14, "Fête nationale"),
+    fixed(8, 15, "Assomption"),
+    fixed(11, 1, "Toussaint"),
+    fixed(11, 11, "Armistice 1918"),
+    fixed(12, 25, "Noël"),
+  ],
+  BR,
+  "BR-SP": [...BR, fixed(7, 9, "Revolução Constitucionalista")],
+  "BR-RJ": [...BR, fixed(4, 23, "Dia de São Jorge")],
+  CA: [
+    fixed(1, 1, "New Year's Day", "substitute"),
+    easter(-2, "Good Friday"),
+    {
+      type: "weekdayOnOrBefore",
+      month: 5,
+      day: 24,
+      weekday: 1,
+      name: "Victoria Day",
+    },
+    fixed(7, 1, "Canada Day", "substitute"),
+    nth(9, 1, 1, "Labour Day"),
+    fixed(9, 30, "National Day for Truth and Reconciliation", "substitute"),
+    nth(10, 1, 2, "Thanksgiving"),
+    fixed(12, 25, "Christmas Day", "substitute"),
+    fixed(12, 26, "Boxing Day", "substitute"),
+  ],
+  PT: [
+    fixed(1, 1, "Ano Novo"),
+    easter(-2, "Sexta-feira Santa"),
+    easter(0, "Páscoa"),
+    fixed(4, 25, "Dia da Liberdade"),
+    fixed(5, 1, "Dia do Trabalhador"),
+    easter(60, "Corpo de Deus"),
+    fixed(6, 10, "Dia de Portugal"),
+    fixed(8, 15, "Assunção de Nossa Senhora"),
+    fixed(10, 5, "Implantação da República"),
+    fixed(11, 1, "Dia de Todos os Santos"),
+    fixed(12, 1, "Restauração da Independência"),
+    fixed(12, 8, "Imaculada Conceição"),
+    fixed(12, 25, "Natal"),
+  ],
+  ES: [
+    fixed(1, 1, "Año Nuevo"),
+    fixed(1, 6, "Epifanía del Señor"),
+    easter(-2, "Viernes Santo"),
+    fixed(5, 1, "Fiesta del Trabajo"),
+    fixed(8, 15, "Asunción de la Virgen"),
+    fixed(10, 12, "Fiesta Nacional de España"),
+    fixed(11, 1, "Todos los Santos"),
+    fixed(12, 6, "Día de la Constitución"),
+    fixed(12, 8, "Inmaculada Concepción"),
+    fixed(12, 25, "Natividad del Señor"),
+  ],
+  NL: [
+    fixed(1, 1, "Nieuwjaarsdag"),
+    easter(1, "Tweede Paasdag"),
+    fixed(4, 27, "Koningsdag", "sundayToSaturday"),
+    easter(39, "Hemelvaartsdag"),
+    easter(50, "Tweede Pinksterdag"),
+    fixed(12, 25, "Eerste Kerstdag"),
+    fixed(12, 26, "Tweede Kerstdag"),
+  ],
+};
+
+export const SUPPORTED_HOLIDAY_REGIONS = Object.keys(REGIONS).sort();
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+export function easterSunday(year: number): DateTime {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return DateTime.utc(year, month, day);
+}
+
+function ruleDate(rule: HolidayRule, year: number): DateTime {
+  switch (rule.type) {
+    case "fixed":
+      return DateTime.utc(year, rule.month, rule.day);
+    case "easter":
+      return easterSunday(year).plus({ days: rule.offset });
+    case "nthWeekday": {
+      if (rule.n > 0) {
+        const first = DateTime.utc(year, rule.month, 1);
+        const shift = (rule.weekday - first.weekday + 7) % 7;
+        return first.plus({ days: shift + (rule.n - 1) * 7 });
+      }
+      const last = DateTime.utc(year, rule.month, 1)
+        .endOf("month")
+        .startOf("day");
+      const shift = (last.weekday - rule.weekday + 7) % 7;
+      return last.minus({ days: shift + (-rule.n - 1) * 7 });
+    }
+    case "weekdayOnOrBefore": {
+      const limit = DateTime.utc(year, rule.month, rule.day);
+      return limit.minus({ days: (limit.weekday - rule.weekday + 7) % 7 });
+    }
+  }
+}
+
+export function holidaysForRegion(region: string, year: number): Holiday[] {
+  const rules = REGIONS[region.toUpperCase()];
+  if (!rules) {
+    throw new Error(
+      `Unsupported holiday region: ${region}. Supported regions: ${SUPPORTED_HOLIDAY_REGIONS.join(
+        ", "
+      )}`
+    );
+  }
+
+  const holidays = rules.map((rule) => ({
+    rule,
+    date: ruleDate(rule, year),
+  }));
+  const taken = new Set(holidays.map((h) => h.date.toISODate()));
+
+  const result: Holiday[] = [];
+  for (const { rule, date } of holidays) {
+    result.push({ date: date.toISODate()!, name: rule.name });
+
+    const observed = rule.type === "fixed" ? rule.observed : undefined;
+    if (!observed || date.weekday < 6) continue;
+
+    let moved: DateTime | undefined;
+    if (observed === "nearestWeekday") {
+      moved = date.plus({ days: date.weekday === 6 ? -1 : 1 });
+    } else if (observed === "sundayToSaturday") {
+      if (date.weekday === 7) {
+        result.pop();
+        moved = date.minus({ days: 1 });
+      }
+    } else {
+      moved = date;
+      while (moved.weekday >= 6 || taken.has(moved.toISODate())) {
+        moved = moved.plus({ days: 1 });
+      }
+    }
+    if (moved) {
+      taken.add(moved.toISODate());
+      result.push({
+        date: moved.toISODate()!,
+        name:
+          observed === "sundayToSaturday"
+            ? rule.name
+            : `${rule.name} (observed)`,
+      });
+    }
+  }
+
+  return result.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Every day covered by an event's DTSTART..DTEND range counts as a holiday.
+export function parseIcsHolidays(ics: string): Holiday[] {
+  const holidays: Holiday[] = [];
+
+  for (const vevent of findComponents(parseICalendar(ics), "VEVENT")) {
+    const dtstart = getProperty(vevent, "DTSTART");
+    if (!dtstart) continue;
+    const dtend = getProperty(vevent, "DTEND");
+    const start = DateTime.fromISO(dtstart.value.slice(0, 8));
+    const end = dtend
+      ? DateTime.fromISO(dtend.value.slice(0, 8))
+      : start.plus({ days: 1 });
+    const summary = getProperty(vevent, "SUMMARY");
+    const name = summary ? unescapeText(summary.value) : "Holiday";
+
+    for (let day = start; day < end; day = day.plus({ days: 1 })) {
+      holidays.push({ date: day.toISODate()!, name });
+    }
+    // A timed or zero-length event still marks its start day.
+    if (end <= start) holidays.push({ date: start.toISODate()!, name });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,266 @@
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from "node:http";
+import { logger } from "./logger.js";
+
+export interface HttpOptions {
+  port: number;
+  host: string;
+  // Accepted as "Authorization: Bearer <token>" or "X-API-Key: <token>"
+  authTokens: string[];
+  allowUnauthenticated: boolean;
+  // Sessions without a request for this long are closed
+  sessionIdleSeconds: number;
+}
+
+export interface McpSession {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+function readFlag(argv: string[], name: string) {
+  const index = argv.findIndex(
+    (arg) => arg === name || arg.startsWith(`${name}=`)
+  );
+  if (index === -1) return undefined;
+  const arg = argv[index];
+  return arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : argv[index + 1];
+}
+
+// HTTP mode is chosen with --http or MCP_TRANSPORT=http; anything else keeps
+// the stdio transport.
+export function httpOptionsFromEnv(
+  argv: string[],
+  env: NodeJS.ProcessEnv
+): HttpOptions | undefined {
+  const transport = readFlag(argv, "--transport") || env.MCP_TRANSPORT;
+  if (!argv.includes("--http") && transport !== "http") return undefined;
+
+  const port = Number(readFlag(argv, "--port") || env.MCP_HTTP_PORT || 3000);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${port}`);
+  }
+
+  const sessionIdleSeconds = Number(env.MCP_HTTP_SESSION_IDLE_SECONDS || 1800);
+  if (!(sessionIdleSeconds > 0)) {
+    throw new Error(`Invalid session idle time: ${sessionIdleSeconds}`);
+  }
+
+  return {
+    port,
+    host: readFlag(argv, "--host") || env.MCP_HTTP_HOST || "127.0.0.1",
+    authTokens: (env.MCP_AUTH_TOKENS || env.MCP_AUTH_TOKEN || "")
+      .split(",")
+      .map((token) => token.trim())
+      .filter(Boolean),
+    allowUnauthenticated: env.MCP_HTTP_ALLOW_UNAUTHENTICATED === "true",
+    sessionIdleSeconds,
+  };
+}
+
+// Hashing both sides first gives timingSafeEqual equal-length inputs, so the
+// comparison does not leak the token length either.
+function tokenMatches(candidate: string, tokens: string[]) {
+  const digest = createHash("sha256").update(candidate).digest();
+  return tokens.some((token) =>
+    timingSafeEqual(digest, createHash("sha256").update(token).digest())
+  );
+}
+
+function isAuthorized(req: IncomingMessage, options: HttpOptions) {
+  if (!options.authTokens.length) return options.allowUnauthenticated;
+
+  const authorization = req.headers.authorization || "";
+  const bearer = authorization.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = req.headers["x-api-key"];
+  const candidate = bearer || (Array.isArray(apiKey) ? apiKey[0] : apiKey);
+  return !!candidate && tokenMatches(candidate, options.authTokens);
+}
+
+async function readJsonBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+// Serves MCP over Streamable HTTP on /mcp, with one MCP server instance per
+// session, and an unauthenticated /health endpoint for load balancers.
+export async function startHttpServer(
+  createSession: () => McpSession,
+  options: HttpOptions
+): Promise<HttpServer> {
+  if (!options.authTokens.length && !options.allowUnauthenticated) {
+    throw new Error(
+      "HTTP mode needs MCP_AUTH_TOKEN (or MCP_AUTH_TOKENS); set MCP_HTTP_ALLOW_UNAUTHENTICATED=true to run without authentication"
+    );
+  }
+
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  // Time of the last request per session, for expiring abandoned ones
+  const lastSeen = new Map<string, number>();
+
+  const handleMcpRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ) => {
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader)
+      ? sessionHeader[0]
+      : sessionHeader;
+
+    const transport = sessionId ? transports.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId) {
+        sendRpcError(res, 404, "Session not found");
+        return;
+      }
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        sendRpcError(res, 400, "No valid session ID provided");
+        return;
+      }
+
+      const session = createSession();
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          transports.set(id, newTransport);
+          lastSeen.set(id, Date.now());
+        },
+      });
+      try {
+        await session.connect(newTransport);
+      } catch (error) {
+        await session.close();
+        throw error;
+      }
+
+      // connect() installs the server's own close handler, so chain onto it
+      const serverOnClose = newTransport.onclose;
+      let closed = false;
+      newTransport.onclose = () => {
+        serverOnClose?.();
+        if (closed) return;
+        closed = true;
+        if (newTransport.sessionId) {
+          transports.delete(newTransport.sessionId);
+          lastSeen.delete(newTransport.sessionId);
+        }
+        session
+          .close()
+          .catch((error) =>
+            logger.error("http", "Could not close session", error)
+          );
+      };
+
+      try {
+        await newTransport.handleRequest(req, res, body);
+      } finally {
+        // A rejected initialize never registers a session ID, so neither a
+        // DELETE nor the idle sweep could reach this transport later
+        if (!newTransport.sessionId) await newTransport.close();
+      }
+      return;
+    }
+
+    lastSeen.set(sessionId!, Date.now());
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+
+    try {
+      if (path === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: transports.size });
+        return;
+      }
+      if (path !== "/mcp") {
+        sendJson(res, 404, { error: "Not found" });
+        return;
+      }
+      if (!isAuthorized(req, options)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="mcp"');
+        sendRpcError(res, 401, "Unauthorized");
+        return;
+      }
+      if (!["GET", "POST", "DELETE"].includes(req.method || "")) {
+        sendRpcError(res, 405, "Method not allowed");
+        return;
+      }
+
+      await handleMcpRequest(req, res);
+    } catch (error: any) {
+      logger.error("http", "Request failed", error);
+      if (!res.headersSent) {
+        sendRpcError(
+          res,
+          error instanceof SyntaxError ? 400 : 500,
+          error instanceof SyntaxError ? "Invalid JSON body" : error.message
+        );
+      }
+    }
+  });
+
+  // Clients that go away without a DELETE would otherwise keep their
+  // session, and its server instance, in memory forever.
+  const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleSeconds * 1000;
+    for (const [id, time] of lastSeen) {
+      if (time > cutoff) continue;
+      lastSeen.delete(id);
+      logger.info("http", "Closing idle session", { session: id });
+      transports
+        .get(id)
+        ?.close()
+        .catch((error) =>
+          logger.error("http", "Could not close transport", error)
+        );
+    }
+  }, Math.min(options.sessionIdleSeconds, 60) * 1000);
+  sweepTimer.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(sweepTimer);
+    for (const transport of transports.values()) {
+      transport
+        .close()
+        .catch((error) =>
+          logger.error("http", "Could not close transport", error)
+        );
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  return httpServer;
+}
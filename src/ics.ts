@@ -0,0 +1,666 @@
+import type { calendar_v3 } from "@googleapis/calendar";
+import { DateTime } from "luxon";
+import { WINDOWS_ZONES } from "./timezones.js";
+
+// RFC 5545 reading and writing for the calendar tools. Only the parts of the
+// spec Google Calendar can represent are handled.
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+export function parseProperty(line: string): IcsProperty {
+  // The first colon outside a quoted parameter value ends the name/params.
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator < 0) throw new Error(`Malformed iCalendar line: ${line}`);
+
+  const [name, ...rawParams] = splitOutsideQuotes(
+    line.slice(0, separator),
+    ";"
+  );
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf("=");
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param
+        .slice(equals + 1)
+        .replace(/^"|"$/g, "");
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+export function parseICalendar(text: string): IcsComponent {
+  const root: IcsComponent = { type: "ROOT", properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    const current = stack[stack.length - 1];
+    if (property.name === "BEGIN") {
+      const component: IcsComponent = {
+        type: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length === 1 || current.type !== property.value.toUpperCase()) {
+        throw new Error(`Unexpected END:${property.value} in iCalendar data`);
+      }
+      stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Unterminated ${stack[stack.length - 1].type} component`);
+  }
+  return root;
+}
+
+export function findComponents(root: IcsComponent, type: string) {
+  const found: IcsComponent[] = [];
+  for (const component of root.components) {
+    if (component.type === type) found.push(component);
+    found.push(...findComponents(component, type));
+  }
+  return found;
+}
+
+export function getProperty(component: IcsComponent, name: string) {
+  return component.properties.find((p) => p.name === name);
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 5545 3.1).
+export function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf-8");
+  if (bytes.length <= 75) return line;
+
+  const chunks: string[] = [];
+  let start = 0;
+  let limit = 75;
+  while (start < bytes.length) {
+    let end = Math.min(start + limit, bytes.length);
+    // Never split a multi-byte UTF-8 sequence.
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    chunks.push(bytes.subarray(start, end).toString("utf-8"));
+    start = end;
+    limit = 74;
+  }
+  return chunks.join("\r\n ");
+}
+
+export interface IcsTime {
+  date?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+// An IANA name at the end of a TZID such as
+// "/freeassociation.sourceforge.net/Tzfile/Europe/London"
+const IANA_SUFFIX = /([A-Za-z_]+(?:\/[A-Za-z0-9_+-]+)+)$/;
+
+function isTimeZone(zone: string) {
+  return DateTime.local().setZone(zone).isValid;
+}
+
+// Maps the TZID of each VTIMEZONE in the file to the IANA zone it stands
+// for, when the file says so with X-LIC-LOCATION or the zone is a fixed
+// whole-hour offset.
+export function fileTimeZones(root: IcsComponent) {
+  const zones = new Map<string, string>();
+  for (const vtimezone of findComponents(root, "VTIMEZONE")) {
+    const tzid = getProperty(vtimezone, "TZID")?.value;
+    if (!tzid) continue;
+
+    const location = getProperty(vtimezone, "X-LIC-LOCATION")?.value;
+    if (location && isTimeZone(location)) {
+      zones.set(tzid, location);
+      continue;
+    }
+
+    const offsets = new Set(
+      vtimezone.components.map(
+        (observance) => getProperty(observance, "TZOFFSETTO")?.value
+      )
+    );
+    const [offset] = offsets;
+    const match = offsets.size === 1 && offset?.match(/^([+-])(\d{2})00$/);
+    if (match) {
+      const hours = Number(match[2]);
+      zones.set(
+        tzid,
+        hours === 0
+          ? "Etc/UTC"
+          : `Etc/GMT${match[1] === "+" ? "-" : "+"}${hours}`
+      );
+    }
+  }
+  return zones;
+}
+
+// Resolves a TZID to an IANA zone: IANA names as they are, Windows names as
+// Outlook writes them, and other names through the file's VTIMEZONEs. An
+// unknown zone is an error, since guessing would shift the event.
+export function resolveTimeZone(
+  tzid: string,
+  fileZones: Map<string, string> = new Map()
+) {
+  const zone = [
+    tzid,
+    WINDOWS_ZONES[tzid],
+    fileZones.get(tzid),
+    tzid.match(IANA_SUFFIX)?.[1],
+  ].find((zone) => typeof zone === "string" && isTimeZone(zone));
+  if (!zone) throw new Error(`Unknown time zone "${tzid}"`);
+  return zone;
+}
+
+// Converts DTSTART/DTEND style values into Google's start/end shape.
+export function parseIcsTime(
+  property: IcsProperty,
+  defaultTimeZone: string,
+  fileZones: Map<string, string> = new Map()
+): IcsTime {
+  const value = property.value;
+  const dateMatch = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (property.params.VALUE === "DATE" || dateMatch) {
+    if (!dateMatch) throw new Error(`Invalid DATE value: ${value}`);
+    return { date: `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}` };
+  }
+
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/
+  );
+  if (!match) throw new Error(`Invalid DATE-TIME value: ${value}`);
+  const local = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+
+  if (match[7]) return { dateTime: `${local}Z`, timeZone: "UTC" };
+
+  const tzid = property.params.TZID;
+  const timeZone = tzid ? resolveTimeZone(tzid, fileZones) : defaultTimeZone;
+  return { dateTime: local, timeZone };
+}
+
+function formatUtc(dateTime: DateTime) {
+  return dateTime.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
+}
+
+function formatTime(
+  name: string,
+  time: calendar_v3.Schema$EventDateTime | undefined,
+  fallbackZone: string
+): string | undefined {
+  if (!time) return undefined;
+  if (time.date) {
+    return `${name};VALUE=DATE:${time.date.replace(/-/g, "")}`;
+  }
+  if (!time.dateTime) return undefined;
+
+  const zone = time.timeZone || fallbackZone;
+  const local = DateTime.fromISO(time.dateTime, { setZone: true }).setZone(
+    zone
+  );
+  if (zone === "UTC") return `${name}:${formatUtc(local)}`;
+  return `${name};TZID=${zone}:${local.toFormat("yyyyMMdd'T'HHmmss")}`;
+}
+
+function formatOffset(minutes: number) {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(
+    abs % 60
+  ).padStart(2, "0")}`;
+}
+
+// Builds a VTIMEZONE with one explicit observance per offset change in the
+// given years, found by scanning the zone day by day and then hour by hour
+// within each day whose offset changed.
+export function buildVTimezone(
+  zone: string,
+  fromYear: number,
+  toYear: number
+): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${zone}`];
+  let cursor = DateTime.fromObject({ year: fromYear }, { zone });
+  const end = DateTime.fromObject({ year: toYear + 1 }, { zone });
+  let previousOffset = cursor.minus({ hours: 1 }).offset;
+  let transitions = 0;
+
+  for (; cursor < end; cursor = cursor.plus({ hours: 1 })) {
+    const nextDay = cursor.plus({ hours: 24 });
+    if (cursor.offset === previousOffset && nextDay.offset === previousOffset) {
+      cursor = nextDay.minus({ hours: 1 });
+      continue;
+    }
+    if (cursor.offset === previousOffset) continue;
+    const kind = cursor.isInDST ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      // Onset is expressed in the local time that was in effect before it.
+      `DTSTART:${cursor
+        .toUTC()
+        .plus({ minutes: previousOffset })
+        .toFormat("yyyyMMdd'T'HHmmss")}`,
+      `TZOFFSETFROM:${formatOffset(previousOffset)}`,
+      `TZOFFSETTO:${formatOffset(cursor.offset)}`,
+      `TZNAME:${cursor.offsetNameShort}`,
+      `END:${kind}`
+    );
+    previousOffset = cursor.offset;
+    transitions++;
+  }
+
+  if (transitions === 0) {
+    const offset = formatOffset(cursor.offset);
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${cursor.offsetNameShort}`,
+      "END:STANDARD"
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+const PARTSTAT: Record<string, string> = {
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  tentative: "TENTATIVE",
+  needsAction: "NEEDS-ACTION",
+};
+
+function buildVEvent(
+  event: calendar_v3.Schema$Event,
+  fallbackZone: string,
+  stamp: string,
+  exdates: string[]
+): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.iCalUID || `${event.id}@google.com`}`,
+    `DTSTAMP:${stamp}`,
+  ];
+  const push = (line: string | undefined) => {
+    if (line) lines.push(line);
+  };
+
+  push(formatTime("DTSTART", event.start, fallbackZone));
+  push(formatTime("DTEND", event.end, fallbackZone));
+  if (event.originalStartTime) {
+    push(formatTime("RECURRENCE-ID", event.originalStartTime, fallbackZone));
+  }
+  for (const rule of event.recurrence || []) push(rule);
+  for (const exdate of exdates) push(exdate);
+  if (event.summary) push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) push(`LOCATION:${escapeText(event.location)}`);
+  if (event.status) push(`STATUS:${event.status.toUpperCase()}`);
+  if (event.transparency === "transparent") push("TRANSP:TRANSPARENT");
+  if (event.hangoutLink) push(`URL:${event.hangoutLink}`);
+  if (event.organizer?.email) {
+    const cn = event.organizer.displayName
+      ? `;CN="${event.organizer.displayName.replace(/"/g, "")}"`
+      : "";
+    push(`ORGANIZER${cn}:mailto:${event.organizer.email}`);
+  }
+  for (const attendee of event.attendees || []) {
+    if (!attendee.email) continue;
+    const params = [
+      attendee.displayName
+        ? `CN="${attendee.displayName.replace(/"/g, "")}"`
+        : "",
+      `ROLE=${attendee.optional ? "OPT-PARTICIPANT" : "REQ-PARTICIPANT"}`,
+      `PARTSTAT=${
+        PARTSTAT[attendee.responseStatus || "needsAction"] || "NEEDS-ACTION"
+      }`,
+      attendee.resource ? "CUTYPE=RESOURCE" : "",
+    ].filter(Boolean);
+    push(`ATTENDEE;${params.join(";")}:mailto:${attendee.email}`);
+  }
+  if (event.updated) {
+    push(`LAST-MODIFIED:${formatUtc(DateTime.fromISO(event.updated))}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+// Series without an UNTIL get timezone transitions for this many years past
+// the exported range.
+const OPEN_SERIES_YEARS = 10;
+
+// The last year a recurring series can have an instance in, going by its
+// RRULE's UNTIL, or undefined when it has none.
+function seriesEndYear(recurrence: string[]) {
+  const years = recurrence
+    .filter((rule) => rule.startsWith("RRULE:"))
+    .map((rule) => rule.match(/UNTIL=(\d{4})/)?.[1]);
+  if (!years.length || years.some((year) => !year)) return undefined;
+  return Math.max(...years.map(Number));
+}
+
+// Cancelled instances of a series, keyed by the series' event ID, as EXDATE
+// lines in the series' own timezone.
+function exceptionDates(
+  events: calendar_v3.Schema$Event[],
+  fallbackZone: string
+) {
+  const series = new Map(events.map((event) => [event.id, event]));
+  const exdates = new Map<string, string[]>();
+  for (const event of events) {
+    if (event.status !== "cancelled" || !event.recurringEventId) continue;
+    const master = series.get(event.recurringEventId);
+    const original = event.originalStartTime;
+    if (!master?.recurrence || !original) continue;
+
+    const line = formatTime(
+      "EXDATE",
+      original.date
+        ? { date: original.date }
+        : {
+            dateTime: original.dateTime,
+            timeZone: master.start?.timeZone || original.timeZone,
+          },
+      fallbackZone
+    );
+    if (!line) continue;
+    exdates.set(master.id!, [...(exdates.get(master.id!) || []), line]);
+  }
+  return exdates;
+}
+
+// Cancelled instances in events are written as EXDATEs on their series rather
+// than as events of their own. timeMin and timeMax are the exported range.
+export function buildVCalendar(
+  events: calendar_v3.Schema$Event[],
+  options: {
+    calendarName?: string;
+    timeZone: string;
+    timeMin?: string;
+    timeMax?: string;
+  }
+): string {
+  const exdates = exceptionDates(events, options.timeZone);
+  const exported = events.filter((event) => event.status !== "cancelled");
+
+  const zones = new Set<string>();
+  const years: number[] = [];
+  let seriesEnd = -Infinity;
+  let openSeries = false;
+  for (const event of exported) {
+    const timed = [event.start, event.end, event.originalStartTime].filter(
+      (time) => time?.dateTime
+    );
+    for (const time of timed) {
+      const zone = time!.timeZone || options.timeZone;
+      if (zone !== "UTC") zones.add(zone);
+      years.push(DateTime.fromISO(time!.dateTime!).year);
+    }
+    if (timed.length && event.recurrence?.length) {
+      const endYear = seriesEndYear(event.recurrence);
+      if (endYear === undefined) openSeries = true;
+      else seriesEnd = Math.max(seriesEnd, endYear);
+    }
+  }
+
+  // Transitions are needed from the earliest instance to the end of the
+  // range, and for recurring series up to their last instance.
+  const rangeYears = [options.timeMin, options.timeMax]
+    .filter((time): time is string => !!time)
+    .map((time) => DateTime.fromISO(time).year)
+    .filter((year) => !Number.isNaN(year));
+  const minYear = Math.min(...years, ...rangeYears);
+  let maxYear = Math.max(...years, ...rangeYears, seriesEnd);
+  if (openSeries) maxYear += OPEN_SERIES_YEARS;
+
+  const stamp = formatUtc(DateTime.now());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//google-workspace-server//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+  for (const zone of [...zones].sort()) {
+    lines.push(...buildVTimezone(zone, minYear, maxYear));
+  }
+  for (const event of exported) {
+    lines.push(
+      ...buildVEvent(
+        event,
+        options.timeZone,
+        stamp,
+        exdates.get(event.id!) || []
+      )
+    );
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+const RESPONSE_STATUS: Record<string, string> = {
+  ACCEPTED: "accepted",
+  DECLINED: "declined",
+  TENTATIVE: "tentative",
+  "NEEDS-ACTION": "needsAction",
+};
+
+function parseCalAddress(property: IcsProperty) {
+  return {
+    email: property.value.replace(/^mailto:/i, ""),
+    displayName: property.params.CN,
+  };
+}
+
+// Maps a VEVENT to a Google Calendar event resource. Recurrence lines are
+// passed through unchanged, which Google accepts for RRULE/RDATE/EXDATE.
+export function vEventToGoogleEvent(
+  vevent: IcsComponent,
+  defaultTimeZone: string,
+  fileZones: Map<string, string> = new Map()
+): calendar_v3.Schema$Event {
+  const text = (name: string) => {
+    const property = getProperty(vevent, name);
+    return property ? unescapeText(property.value) : undefined;
+  };
+
+  const dtstart = getProperty(vevent, "DTSTART");
+  if (!dtstart) throw new Error("VEVENT without DTSTART");
+  const start = parseIcsTime(dtstart, defaultTimeZone, fileZones);
+
+  let end: IcsTime;
+  const dtend = getProperty(vevent, "DTEND");
+  const duration = getProperty(vevent, "DURATION");
+  if (dtend) {
+    end = parseIcsTime(dtend, defaultTimeZone, fileZones);
+  } else if (start.date) {
+    end = {
+      date: DateTime.fromISO(start.date).plus({ days: 1 }).toISODate()!,
+    };
+  } else {
+    const startTime = DateTime.fromISO(start.dateTime!, {
+      zone: start.timeZone,
+    });
+    const length = duration ? parseDuration(duration.value) : { minutes: 0 };
+    end = {
+      dateTime: startTime
+        .plus(length)
+        .toFormat(
+          start.dateTime!.endsWith("Z")
+            ? "yyyy-MM-dd'T'HH:mm:ss'Z'"
+            : "yyyy-MM-dd'T'HH:mm:ss"
+        ),
+      timeZone: start.timeZone,
+    };
+  }
+
+  const organizer = getProperty(vevent, "ORGANIZER");
+  const status = text("STATUS")?.toLowerCase();
+
+  return {
+    iCalUID: text("UID"),
+    summary: text("SUMMARY"),
+    description: text("DESCRIPTION"),
+    location: text("LOCATION"),
+    start,
+    end,
+    recurrence: vevent.properties
+      .filter((p) => ["RRULE", "RDATE", "EXDATE", "EXRULE"].includes(p.name))
+      .map((p) => {
+        const params = Object.entries(p.params)
+          .map(
+            ([key, value]) =>
+              `;${key}=${
+                key === "TZID" ? resolveTimeZone(value, fileZones) : value
+              }`
+          )
+          .join("");
+        return `${p.name}${params}:${p.value}`;
+      }),
+    status:
+      status === "tentative" || status === "confirmed" ? status : undefined,
+    transparency:
+      text("TRANSP")?.toUpperCase() === "TRANSPARENT"
+        ? "transparent"
+        : undefined,
+    organizer: organizer ? parseCalAddress(organizer) : undefined,
+    attendees: vevent.properties
+      .filter((p) => p.name === "ATTENDEE")
+      .map((p) => ({
+        ...parseCalAddress(p),
+        optional: p.params.ROLE === "OPT-PARTICIPANT" || undefined,
+        responseStatus: RESPONSE_STATUS[p.params.PARTSTAT || "NEEDS-ACTION"],
+      })),
+  };
+}
+
+// ISO 8601 style durations as used by RFC 5545, e.g. PT1H30M or P1D.
+export function parseDuration(value: string) {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) throw new Error(`Invalid DURATION value: ${value}`);
+  const sign = match[1] === "-" ? -1 : 1;
+  return {
+    weeks: sign * Number(match[2] || 0),
+    days: sign * Number(match[3] || 0),
+    hours: sign * Number(match[4] || 0),
+    minutes: sign * Number(match[5] || 0),
+    seconds: sign * Number(match[6] || 0),
+  };
+}
+
+export interface InvitationSummary {
+  method?: string;
+  uid?: string;
+  summary?: string;
+  start?: IcsTime;
+  end?: IcsTime;
+  organizer?: string;
+  sequence?: number;
+  recurrenceId?: string;
+}
+
+// Pulls out what an RSVP needs from an iTIP message (RFC 5546).
+export function summarizeInvitation(
+  text: string,
+  defaultTimeZone: string
+): InvitationSummary[] {
+  const root = parseICalendar(text);
+  const fileZones = fileTimeZones(root);
+  const vcalendar = findComponents(root, "VCALENDAR")[0];
+  const method = vcalendar
+    ? getProperty(vcalendar, "METHOD")?.value.toUpperCase()
+    : undefined;
+
+  return findComponents(root, "VEVENT").map((vevent) => {
+    const dtstart = getProperty(vevent, "DTSTART");
+    const dtend = getProperty(vevent, "DTEND");
+    const summary = getProperty(vevent, "SUMMARY");
+    const sequence = getProperty(vevent, "SEQUENCE");
+
+    return {
+      method,
+      uid: getProperty(vevent, "UID")?.value,
+      summary: summary ? unescapeText(summary.value) : undefined,
+      start: dtstart
+        ? parseIcsTime(dtstart, defaultTimeZone, fileZones)
+        : undefined,
+      end: dtend ? parseIcsTime(dtend, defaultTimeZone, fileZones) : undefined,
+      organizer: getProperty(vevent, "ORGANIZER")?.value.replace(
+        /^mailto:/i,
+        ""
+      ),
+      sequence: sequence ? Number(sequence.value) : undefined,
+      recurrenceId: getProperty(vevent, "RECURRENCE-ID")?.value,
+    };
+  });
+}
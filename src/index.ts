@@ -1,34 +1,487 @@
 #!/usr/bin/env node
-import { auth, calendar } from "@googleapis/calendar";
-import { gmail } from "@googleapis/gmail";
+import { auth, calendar, calendar_v3 } from "@googleapis/calendar";
+import { gmail, gmail_v1 } from "@googleapis/gmail";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
   McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { DateTime } from "luxon";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import {
+  buildMimeMessage,
+  decodeBase64Url,
+  describeMimeTree,
+  encodeBase64Url,
+  escapeHtml,
+  extractEmailAddress,
+  extractMessageContent,
+  getHeader,
+  guessMimeType,
+  htmlToText,
+  OutgoingAttachment,
+  parseAddressList,
+  previewMimeMessage,
+} from "./mime.js";
+import { loadAccountSettings } from "./accounts.js";
+import {
+  appendAuditEntry,
+  AuditDetails,
+  AuditEntry,
+  DEFAULT_AUDIT_LOG,
+  isReversible,
+  readAuditLog,
+  REVERSIBLE_TOOLS,
+  sanitizeArguments,
+  truncateResult,
+  undoneEntryIds,
+} from "./audit.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { ConfirmationStore, payloadHash } from "./confirmation.js";
+import { classifyError, errorResult, retryConfig } from "./errors.js";
+import { httpOptionsFromEnv, startHttpServer } from "./http.js";
+import { isLevelEnabled, logger } from "./logger.js";
+import {
+  Holiday,
+  holidaysForRegion,
+  parseIcsHolidays,
+  SUPPORTED_HOLIDAY_REGIONS,
+} from "./holidays.js";
+import {
+  buildVCalendar,
+  fileTimeZones,
+  findComponents,
+  getProperty,
+  InvitationSummary,
+  parseICalendar,
+  summarizeInvitation,
+  unescapeText,
+  vEventToGoogleEvent,
+} from "./ics.js";
+import { buildRecurrence } from "./recurrence.js";
+import { resolvePathArgument } from "./paths.js";
+import { loadPolicy, PolicyEngine, WRITE_TOOLS } from "./policy.js";
+import { PROMPT_INSTRUCTIONS, PROMPTS } from "./prompts.js";
+import { parseResourceUri, RESOURCE_TEMPLATES } from "./resources.js";
+import {
+  DEFAULT_SYNC_STATE_FILE,
+  isCheckpointExpired,
+  loadSyncState,
+  saveSyncState,
+  SyncState,
+} from "./sync.js";
+import {
+  BusyInterval,
+  busyKey,
+  CandidateSlot,
+  findFreeSlots,
+  isFree,
+  isWithinWorkingHours,
+  parseWeekday,
+  Participant,
+  pickBestSlots,
+  SlotOptions,
+} from "./scheduling.js";
+import { actionsToLabelChanges, MESSAGE_ACTIONS } from "./labels.js";
+
+// OAuth credentials for every configured account; throws when none are set
+const ACCOUNT_SETTINGS = loadAccountSettings(process.env);
+
+// Optional directory where get_attachment saves downloaded files
+const DOWNLOAD_DIR = process.env.GOOGLE_DOWNLOAD_DIR;
+
+// Optional directory attachment paths must stay inside
+const ATTACHMENT_DIR = process.env.GOOGLE_ATTACHMENT_DIR;
+
+// Optional directory for .ics imports, exports and holiday files
+const ICS_DIR = process.env.GOOGLE_ICS_DIR;
+
+// Upper bound on parallel messages.get calls when expanding a list
+const MESSAGE_FETCH_CONCURRENCY = 5;
+
+// Where get_changes keeps its Gmail history ID and calendar sync tokens
+const SYNC_STATE_FILE =
+  process.env.GOOGLE_SYNC_STATE_FILE || DEFAULT_SYNC_STATE_FILE;
+
+// JSONL file every write is recorded in
+const AUDIT_LOG = process.env.GOOGLE_AUDIT_LOG || DEFAULT_AUDIT_LOG;
+
+// Largest batch whose previous labels are saved for undo_action
+const AUDIT_SNAPSHOT_LIMIT = 500;
+
+// Labels Gmail manages itself; undo never adds or removes them directly
+const UNMODIFIABLE_LABELS = ["TRASH", "DRAFT", "SENT", "CHAT"];
+
+// How often subscribed resources are checked for changes
+const RESOURCE_POLL_SECONDS = Number(
+  process.env.GOOGLE_RESOURCE_POLL_SECONDS || 60
+);
+
+// Rate-limited and failed Google requests are retried this many times
+const RETRY_CONFIG = retryConfig(Number(process.env.GOOGLE_MAX_RETRIES ?? 4));
+
+// Optional safety policy checked before every tool call
+const POLICY = new PolicyEngine(loadPolicy(process.env));
+
+// Confirmation tokens are shared by all sessions and expire after this long
+const CONFIRMATIONS = new ConfirmationStore(
+  Number(process.env.GOOGLE_CONFIRMATION_TTL_SECONDS || 300)
+);
+
+const ACCOUNT_PROPERTY = {
+  type: "string",
+  enum: ACCOUNT_SETTINGS.accounts.map((account) => account.name),
+  description: `Account to act on (default: ${ACCOUNT_SETTINGS.defaultAccount})`,
+};
+
+// Every tool accepts the optional account selector
+function withAccountArgument<
+  T extends { inputSchema: { properties?: Record<string, unknown> } }
+>(tools: T[]) {
+  return tools.map((tool) => ({
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, account: ACCOUNT_PROPERTY },
+    },
+  }));
+}
+
+function hashContent(content: string | Buffer) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Unwraps the JSON text of a tool handler result, surfacing tool errors as
+// MCP errors.
+function toolResultText(result: {
+  content: { type: string; text: string }[];
+  isError?: boolean;
+}) {
+  const text = result.content.map((part) => part.text).join("\n");
+  if (result.isError) throw new McpError(ErrorCode.InternalError, text);
+  return text;
+}
+
+function summarizeEventChange(event: calendar_v3.Schema$Event) {
+  return {
+    id: event.id,
+    summary: event.summary,
+    start: event.start,
+    end: event.end,
+    location: event.location,
+    recurringEventId: event.recurringEventId,
+    updated: event.updated,
+  };
+}
+
+interface AccountClients {
+  name: string;
+  gmail: gmail_v1.Gmail;
+  calendar: calendar_v3.Calendar;
+}
+
+// Hides tools the policy disables and offers a confirmationToken argument on
+// tools that may need confirmation.
+function applyPolicyToTools<
+  T extends {
+    name: string;
+    inputSchema: { properties?: Record<string, unknown> };
+  }
+>(tools: T[]) {
+  return tools
+    .filter((tool) => POLICY.isToolEnabled(tool.name))
+    .map((tool) =>
+      POLICY.hasConfirmationRules(tool.name)
+        ? {
+            ...tool,
+            inputSchema: {
+              ...tool.inputSchema,
+              properties: {
+                ...tool.inputSchema.properties,
+                confirmationToken: {
+                  type: "string",
+                  description:
+                    "Token from this tool's confirmation preview. Pass it back with exactly the same arguments once the user has approved the preview",
+                },
+              },
+            },
+          }
+        : tool
+    );
+}
 
-// Environment variables required for OAuth
-const CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
-const CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
-const REFRESH_TOKEN = process.env.GOOGLE_REFRESH_TOKEN;
+// Position inside a merged list_events result. Google page tokens only
+// hold for the query that produced them, so the cursor carries that query.
+// Per calendar it keeps the next Google page (null once there is none) and
+// the events already fetched from earlier pages but not yet returned.
+interface EventsCursor {
+  timeMin: string;
+  timeMax?: string;
+  calendarIds: string[];
+  positions: Record<
+    string,
+    { pageToken?: string | null; remaining?: string[]; timeZone?: string }
+  >;
+}
 
-if (!CLIENT_ID || !CLIENT_SECRET || !REFRESH_TOKEN) {
-  throw new Error(
-    "Required Google OAuth credentials not found in environment variables"
+// All-day events start at midnight in their calendar's timezone
+function eventStartTime(event: calendar_v3.Schema$Event, timeZone: string) {
+  if (event.start?.dateTime) return new Date(event.start.dateTime).getTime();
+  return (
+    DateTime.fromISO(event.start?.date || "", { zone: timeZone }).toMillis() ||
+    0
   );
 }
 
+// Message fields shared by send_email and the draft tools
+const COMPOSE_PROPERTIES = {
+  to: {
+    type: "string",
+    description: "Recipient email address",
+  },
+  subject: {
+    type: "string",
+    description: "Email subject",
+  },
+  body: {
+    type: "string",
+    description: "Email body (can include HTML)",
+  },
+  cc: {
+    type: "string",
+    description: "CC recipients (comma-separated)",
+  },
+  bcc: {
+    type: "string",
+    description: "BCC recipients (comma-separated)",
+  },
+  attachments: {
+    type: "array",
+    description:
+      "Files to attach, each given either as a local path or as base64 content with a filename",
+    items: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description:
+            "Local file path to attach, relative to GOOGLE_ATTACHMENT_DIR when that is set",
+        },
+        content: {
+          type: "string",
+          description: "Base64-encoded file content",
+        },
+        filename: {
+          type: "string",
+          description:
+            "File name (required with content, defaults to the path's base name)",
+        },
+        mimeType: {
+          type: "string",
+          description: "MIME type (default: guessed from the file extension)",
+        },
+      },
+    },
+  },
+  replyToMessageId: {
+    type: "string",
+    description:
+      "ID of an email this message replies to; sets the threading headers and threadId",
+  },
+};
+
+// Label fields shared by create_label and update_label
+const LABEL_PROPERTIES = {
+  name: {
+    type: "string",
+    description: 'Label name (use "/" for nesting, e.g. "Clients/Acme")',
+  },
+  textColor: {
+    type: "string",
+    description: 'Text color from the Gmail palette (e.g. "#ffffff")',
+  },
+  backgroundColor: {
+    type: "string",
+    description: 'Background color from the Gmail palette (e.g. "#16a765")',
+  },
+  labelListVisibility: {
+    type: "string",
+    enum: ["labelShow", "labelShowIfUnread", "labelHide"],
+    description: "Visibility in the label list",
+  },
+  messageListVisibility: {
+    type: "string",
+    enum: ["show", "hide"],
+    description: "Visibility of the label on messages in the message list",
+  },
+};
+
+// Slot search fields shared by meeting_suggestion and book_meeting
+const MEETING_SEARCH_PROPERTIES = {
+  calendarIds: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      'List of Google Calendar IDs that share the default working hours (default: ["primary"] when no participants are given)',
+  },
+  participants: {
+    type: "array",
+    description:
+      "Participants with their own timezone, working hours and working days; values left out fall back to the top-level defaults",
+    items: {
+      type: "object",
+      properties: {
+        calendarId: {
+          type: "string",
+          description: "Calendar ID or email address",
+        },
+        account: {
+          type: "string",
+          description:
+            "Configured account to read this calendar's free/busy with (default: the tool's account)",
+        },
+        timezone: {
+          type: "string",
+          description: "IANA timezone of the participant",
+        },
+        workingHoursStart: {
+          type: "number",
+          description:
+            "Start of working hours in the participant's timezone (24h format, 9.5 = 09:30)",
+        },
+        workingHoursEnd: {
+          type: "number",
+          description:
+            "End of working hours in the participant's timezone (24h format)",
+        },
+        workingDays: {
+          type: "array",
+          items: { type: "string" },
+          description: 'Working days, e.g. ["Mon", "Tue", "Wed", "Thu"]',
+        },
+        optional: {
+          type: "boolean",
+          description:
+            "Optional attendees never block a slot but raise its score when free (default: false)",
+        },
+      },
+      required: ["calendarId"],
+    },
+  },
+  meetingLengthMinutes: {
+    type: "number",
+    description: "Meeting length in minutes (default: 60)",
+  },
+  slotStepMinutes: {
+    type: "number",
+    description:
+      "Granularity of candidate start times in minutes (default: 30)",
+  },
+  bufferBeforeMinutes: {
+    type: "number",
+    description:
+      "Free minutes required before the next existing meeting (default: 0)",
+  },
+  bufferAfterMinutes: {
+    type: "number",
+    description:
+      "Free minutes required after the previous existing meeting (default: 0)",
+  },
+  workingHoursStart: {
+    type: "number",
+    description: "Start of working hours (24h format, default: 9)",
+  },
+  workingHoursEnd: {
+    type: "number",
+    description: "End of working hours (24h format, default: 17)",
+  },
+  workingDays: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      'Default working days (default: ["Mon", "Tue", "Wed", "Thu", "Fri"])',
+  },
+  timezone: {
+    type: "string",
+    description:
+      "Timezone for scheduling and for the returned times (default: America/Sao_Paulo)",
+  },
+  preferences: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      'Ranking preferences: "mornings", "afternoons", "avoidFridays", "preferTuesdays", ...',
+  },
+  slotsPerDay: {
+    type: "number",
+    description: "Number of slots per day to suggest (default: 1)",
+  },
+  daysToSearch: {
+    type: "number",
+    description: "Number of days to find slots for (default: 3)",
+  },
+  startDate: {
+    type: "string",
+    description: "First day to search, YYYY-MM-DD (default: tomorrow)",
+  },
+  maxDaysToLookAhead: {
+    type: "number",
+    description: "How many days ahead to search (default: 30)",
+  },
+  holidayRegion: {
+    type: "string",
+    description: `Default country or subdivision code for public holidays (${SUPPORTED_HOLIDAY_REGIONS.join(
+      ", "
+    )})`,
+  },
+  holidayFile: {
+    type: "string",
+    description:
+      "Default path to a local .ics holiday calendar, relative to GOOGLE_ICS_DIR when that is set",
+  },
+  bankHolidays: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      "Extra dates in YYYY-MM-DD format on which no one is available",
+  },
+};
+
 class GoogleWorkspaceServer {
   private server: Server;
-  private auth;
-  private gmail;
-  private calendar;
+  private accounts = new Map<string, AccountClients>();
+  // The account selected by the tool call currently being handled
+  private accountScope = new AsyncLocalStorage<AccountClients>();
+  // Audit details the write currently being handled reports about itself
+  private auditScope = new AsyncLocalStorage<AuditDetails>();
+  // Subscribed resource URIs mapped to a hash of their last-seen content
+  private subscriptions = new Map<string, string>();
+  private pollTimer?: NodeJS.Timeout;
+  // Set by the client with logging/setLevel; nothing is forwarded until then
+  private clientLogLevel?: LoggingLevel;
+  private stopLogForwarding?: () => void;
+  // Tags the log records of this client's requests
+  private readonly logSession = randomUUID();
 
-  constructor() {
+  // Over HTTP the client is remote, so it may only touch local files inside
+  // a configured directory.
+  constructor(private remote = false) {
     this.server = new Server(
       {
         name: "google-workspace-server",
@@ -37,391 +490,1874 @@ class GoogleWorkspaceServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
+          logging: {},
         },
       }
     );
 
-    // Set up OAuth2 client
-    this.auth = new auth.OAuth2(CLIENT_ID, CLIENT_SECRET);
-    this.auth.setCredentials({ refresh_token: REFRESH_TOKEN });
-
-    // Initialize API clients
-    this.gmail = gmail({ version: "v1", auth: this.auth });
-    this.calendar = calendar({ version: "v3", auth: this.auth });
+    // Set up an OAuth2 client and API clients per account
+    for (const account of ACCOUNT_SETTINGS.accounts) {
+      const oauth = new auth.OAuth2(account.clientId, account.clientSecret);
+      oauth.setCredentials({ refresh_token: account.refreshToken });
+      this.accounts.set(account.name, {
+        name: account.name,
+        gmail: gmail({ version: "v1", auth: oauth, retryConfig: RETRY_CONFIG }),
+        calendar: calendar({
+          version: "v3",
+          auth: oauth,
+          retryConfig: RETRY_CONFIG,
+        }),
+      });
+    }
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+    this.setupLoggingHandlers();
 
     // Error handling
-    this.server.onerror = (error) => console.error("[MCP Error]", error);
-    process.on("SIGINT", async () => {
-      await this.server.close();
-      process.exit(0);
+    this.server.onerror = (error) =>
+      logger.error("mcp", "Protocol error", error);
+    this.server.onclose = () => {
+      this.stopResourcePolling();
+      this.stopLogForwarding?.();
+    };
+  }
+
+  // Resources, prompts and polling run outside any tool call and use the
+  // default account.
+  private get gmail() {
+    return (this.accountScope.getStore() || this.getAccount()).gmail;
+  }
+
+  private get calendar() {
+    return (this.accountScope.getStore() || this.getAccount()).calendar;
+  }
+
+  private async accountEmail(name: string) {
+    const profile = await this.getAccount(name).gmail.users.getProfile({
+      userId: "me",
     });
+    return profile.data.emailAddress || undefined;
+  }
+
+  private getAccount(name = ACCOUNT_SETTINGS.defaultAccount) {
+    const account = this.accounts.get(name);
+    if (!account) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown account: ${name}. Configured accounts: ${[
+          ...this.accounts.keys(),
+        ].join(", ")}`
+      );
+    }
+    return account;
   }
 
   private setupToolHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: "list_emails",
-          description: "List recent emails from Gmail inbox",
-          inputSchema: {
-            type: "object",
-            properties: {
-              maxResults: {
-                type: "number",
-                description: "Maximum number of emails to return (default: 10)",
-              },
-              query: {
-                type: "string",
-                description: "Search query to filter emails",
+      tools: applyPolicyToTools(
+        withAccountArgument([
+          {
+            name: "list_emails",
+            description: "List recent emails from Gmail inbox",
+            inputSchema: {
+              type: "object",
+              properties: {
+                maxResults: {
+                  type: "number",
+                  description:
+                    "Maximum number of emails to return (default: 10)",
+                },
+                query: {
+                  type: "string",
+                  description: "Search query to filter emails",
+                },
+                pageToken: {
+                  type: "string",
+                  description:
+                    "Cursor from a previous call's nextPageToken to fetch the next page",
+                },
               },
             },
           },
-        },
-        {
-          name: "search_emails",
-          description: "Search emails with advanced query",
-          inputSchema: {
-            type: "object",
-            properties: {
-              query: {
-                type: "string",
-                description:
-                  'Gmail search query (e.g., "from:example@gmail.com has:attachment")',
-              },
-              maxResults: {
-                type: "number",
-                description: "Maximum number of emails to return (default: 10)",
+          {
+            name: "search_emails",
+            description: "Search emails with advanced query",
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: {
+                  type: "string",
+                  description:
+                    'Gmail search query (e.g., "from:example@gmail.com has:attachment")',
+                },
+                maxResults: {
+                  type: "number",
+                  description:
+                    "Maximum number of emails to return (default: 10)",
+                },
+                pageToken: {
+                  type: "string",
+                  description:
+                    "Cursor from a previous call's nextPageToken to fetch the next page",
+                },
               },
+              required: ["query"],
             },
-            required: ["query"],
           },
-        },
-        {
-          name: "send_email",
-          description: "Send a new email",
-          inputSchema: {
-            type: "object",
-            properties: {
-              to: {
-                type: "string",
-                description: "Recipient email address",
-              },
-              subject: {
-                type: "string",
-                description: "Email subject",
+          {
+            name: "read_email",
+            description:
+              "Read the full content of an email, including its decoded body and attachment list",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  description: "Email ID",
+                },
+                includeHtml: {
+                  type: "boolean",
+                  description:
+                    "Also return the raw HTML body when one exists (default: false)",
+                },
+                calendarId: {
+                  type: "string",
+                  description:
+                    "Calendar to link calendar invitations in the email against (default: primary)",
+                },
               },
-              body: {
-                type: "string",
-                description: "Email body (can include HTML)",
+              required: ["id"],
+            },
+          },
+          {
+            name: "send_email",
+            description: "Send a new email",
+            inputSchema: {
+              type: "object",
+              properties: COMPOSE_PROPERTIES,
+              required: ["to", "subject", "body"],
+            },
+          },
+          {
+            name: "create_draft",
+            description:
+              "Create a Gmail draft for a human to review before sending",
+            inputSchema: {
+              type: "object",
+              properties: COMPOSE_PROPERTIES,
+              required: ["to", "body"],
+            },
+          },
+          {
+            name: "list_drafts",
+            description: "List Gmail drafts",
+            inputSchema: {
+              type: "object",
+              properties: {
+                maxResults: {
+                  type: "number",
+                  description:
+                    "Maximum number of drafts to return (default: 10)",
+                },
+                query: {
+                  type: "string",
+                  description: "Search query to filter drafts",
+                },
               },
-              cc: {
-                type: "string",
-                description: "CC recipients (comma-separated)",
+            },
+          },
+          {
+            name: "get_draft",
+            description: "Read the full content of a draft",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  description: "Draft ID",
+                },
+                includeHtml: {
+                  type: "boolean",
+                  description:
+                    "Also return the raw HTML body when one exists (default: false)",
+                },
               },
-              bcc: {
-                type: "string",
-                description: "BCC recipients (comma-separated)",
+              required: ["id"],
+            },
+          },
+          {
+            name: "update_draft",
+            description:
+              "Update a draft; fields that are left out keep their current values. Given attachments replace the current ones, and an empty list removes them",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  description: "Draft ID",
+                },
+                ...COMPOSE_PROPERTIES,
               },
+              required: ["id"],
             },
-            required: ["to", "subject", "body"],
           },
-        },
-        {
-          name: "modify_email",
-          description: "Modify email labels (archive, trash, mark read/unread)",
-          inputSchema: {
-            type: "object",
-            properties: {
-              id: {
-                type: "string",
-                description: "Email ID",
+          {
+            name: "send_draft",
+            description: "Send an existing draft",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  description: "Draft ID",
+                },
               },
-              addLabels: {
-                type: "array",
-                items: { type: "string" },
-                description: "Labels to add",
+              required: ["id"],
+            },
+          },
+          {
+            name: "get_thread",
+            description:
+              "Read every message in a Gmail thread, oldest first, with decoded bodies",
+            inputSchema: {
+              type: "object",
+              properties: {
+                threadId: {
+                  type: "string",
+                  description:
+                    "Thread ID (returned by read_email and list_emails)",
+                },
               },
-              removeLabels: {
-                type: "array",
-                items: { type: "string" },
-                description: "Labels to remove",
+              required: ["threadId"],
+            },
+          },
+          {
+            name: "reply_to_email",
+            description:
+              "Reply, reply-all or forward an existing email, keeping it in the same thread",
+            inputSchema: {
+              type: "object",
+              properties: {
+                messageId: {
+                  type: "string",
+                  description: "ID of the email being answered or forwarded",
+                },
+                body: {
+                  type: "string",
+                  description: "Reply body (can include HTML)",
+                },
+                mode: {
+                  type: "string",
+                  enum: ["reply", "replyAll", "forward"],
+                  description:
+                    "reply answers the sender, replyAll also keeps To/Cc recipients, forward sends the message on to new recipients (default: reply)",
+                },
+                to: {
+                  type: "string",
+                  description:
+                    "Recipients (comma-separated). Required for forward; for replies, added to the derived recipients",
+                },
+                cc: {
+                  type: "string",
+                  description: "Additional CC recipients (comma-separated)",
+                },
+                bcc: {
+                  type: "string",
+                  description: "BCC recipients (comma-separated)",
+                },
+                includeQuote: {
+                  type: "boolean",
+                  description:
+                    "Quote the original message below the reply (default: true)",
+                },
+                includeAttachments: {
+                  type: "boolean",
+                  description:
+                    "Carry the original message's attachments along (default: true when forwarding, false otherwise)",
+                },
               },
+              required: ["messageId", "body"],
             },
-            required: ["id"],
           },
-        },
-        {
-          name: "list_events",
-          description: "List upcoming calendar events",
-          inputSchema: {
-            type: "object",
-            properties: {
-              maxResults: {
-                type: "number",
-                description: "Maximum number of events to return (default: 10)",
+          {
+            name: "get_attachment",
+            description:
+              "Download an email attachment, saving it to the download directory or returning it as an embedded resource",
+            inputSchema: {
+              type: "object",
+              properties: {
+                messageId: {
+                  type: "string",
+                  description: "ID of the email holding the attachment",
+                },
+                attachmentId: {
+                  type: "string",
+                  description: "Attachment ID (returned by read_email)",
+                },
+                filename: {
+                  type: "string",
+                  description:
+                    "File name to use (default: the name from the email)",
+                },
+                saveToDisk: {
+                  type: "boolean",
+                  description:
+                    "Save to GOOGLE_DOWNLOAD_DIR instead of returning the content (default: true when GOOGLE_DOWNLOAD_DIR is set and the server is not read-only)",
+                },
               },
-              timeMin: {
-                type: "string",
-                description: "Start time in ISO format (default: now)",
+              required: ["messageId", "attachmentId"],
+            },
+          },
+          {
+            name: "modify_email",
+            description:
+              "Modify email labels by name or ID, or apply actions such as archive, trash and mark read",
+            inputSchema: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "string",
+                  description: "Email ID",
+                },
+                addLabels: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Label names or IDs to add",
+                },
+                removeLabels: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Label names or IDs to remove",
+                },
+                actions: {
+                  type: "array",
+                  items: { type: "string", enum: MESSAGE_ACTIONS },
+                  description: "High-level actions to apply",
+                },
+                createMissingLabels: {
+                  type: "boolean",
+                  description:
+                    "Create labels in addLabels that do not exist yet (default: false)",
+                },
               },
-              timeMax: {
-                type: "string",
-                description: "End time in ISO format",
+              required: ["id"],
+            },
+          },
+          {
+            name: "batch_modify_emails",
+            description:
+              "Apply label changes or actions to many emails at once, selected by ID list or Gmail search query",
+            inputSchema: {
+              type: "object",
+              properties: {
+                ids: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Email IDs to modify",
+                },
+                query: {
+                  type: "string",
+                  description:
+                    'Gmail search query selecting the emails to modify (e.g., "from:newsletter@example.com older_than:30d")',
+                },
+                maxMessages: {
+                  type: "number",
+                  description:
+                    "Maximum number of emails a query may expand to (default: 5000)",
+                },
+                includeSpamTrash: {
+                  type: "boolean",
+                  description:
+                    "Include spam and trash when expanding a query (default: false)",
+                },
+                addLabels: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Label names or IDs to add",
+                },
+                removeLabels: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Label names or IDs to remove",
+                },
+                actions: {
+                  type: "array",
+                  items: { type: "string", enum: MESSAGE_ACTIONS },
+                  description: "High-level actions to apply",
+                },
+                createMissingLabels: {
+                  type: "boolean",
+                  description:
+                    "Create labels in addLabels that do not exist yet (default: false)",
+                },
+                dryRun: {
+                  type: "boolean",
+                  description:
+                    "Only report which emails would be modified (default: false)",
+                },
               },
             },
           },
-        },
-        {
-          name: "create_event",
-          description: "Create a new calendar event",
-          inputSchema: {
-            type: "object",
-            properties: {
-              summary: {
-                type: "string",
-                description: "Event title",
+          {
+            name: "list_labels",
+            description: "List Gmail labels with their IDs, type and colors",
+            inputSchema: {
+              type: "object",
+              properties: {
+                includeCounts: {
+                  type: "boolean",
+                  description:
+                    "Also fetch total and unread message counts for each label (default: false)",
+                },
               },
-              location: {
-                type: "string",
-                description: "Event location",
+            },
+          },
+          {
+            name: "create_label",
+            description: "Create a Gmail label",
+            inputSchema: {
+              type: "object",
+              properties: LABEL_PROPERTIES,
+              required: ["name"],
+            },
+          },
+          {
+            name: "update_label",
+            description:
+              "Rename a Gmail label or change its color or visibility",
+            inputSchema: {
+              type: "object",
+              properties: {
+                label: {
+                  type: "string",
+                  description: "Current label name or ID",
+                },
+                ...LABEL_PROPERTIES,
               },
-              description: {
-                type: "string",
-                description: "Event description",
+              required: ["label"],
+            },
+          },
+          {
+            name: "delete_label",
+            description:
+              "Delete a user-created Gmail label (messages keep existing, only the label is removed)",
+            inputSchema: {
+              type: "object",
+              properties: {
+                label: {
+                  type: "string",
+                  description: "Label name or ID",
+                },
               },
-              start: {
-                type: "string",
-                description: "Start time in ISO format",
+              required: ["label"],
+            },
+          },
+          {
+            name: "export_events_ics",
+            description:
+              "Export calendar events in a time range as an iCalendar (.ics) file with recurrence, attendees and VTIMEZONE definitions",
+            inputSchema: {
+              type: "object",
+              properties: {
+                calendarId: {
+                  type: "string",
+                  description:
+                    'Calendar ID from list_calendars (default: "primary")',
+                },
+                timeMin: {
+                  type: "string",
+                  description: "Start time in ISO format (default: now)",
+                },
+                timeMax: {
+                  type: "string",
+                  description: "End time in ISO format",
+                },
+                expandRecurring: {
+                  type: "boolean",
+                  description:
+                    "Export each occurrence as its own event instead of recurring series with RRULEs (default: false)",
+                },
+                outputPath: {
+                  type: "string",
+                  description:
+                    "Write the .ics file to this local path instead of returning it, relative to GOOGLE_ICS_DIR when that is set",
+                },
               },
-              end: {
-                type: "string",
-                description: "End time in ISO format",
+            },
+          },
+          {
+            name: "import_ics",
+            description:
+              "Create calendar events from an iCalendar (.ics) file or string, skipping events whose UID already exists",
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description:
+                    "Local path of the .ics file, relative to GOOGLE_ICS_DIR when that is set",
+                },
+                ics: {
+                  type: "string",
+                  description: "iCalendar data as a string (instead of path)",
+                },
+                calendarId: {
+                  type: "string",
+                  description:
+                    'Calendar ID from list_calendars (default: "primary")',
+                },
+                mode: {
+                  type: "string",
+                  enum: ["import", "insert"],
+                  description:
+                    "import keeps the original organizer and UID without sending invitations; insert creates events you organize (default: import)",
+                },
+                timeZone: {
+                  type: "string",
+                  description:
+                    "Timezone for floating times and unknown TZIDs (default: the server's timezone)",
+                },
+                sendUpdates: {
+                  type: "string",
+                  enum: ["all", "externalOnly", "none"],
+                  description:
+                    "Who receives invitations in insert mode (default: none)",
+                },
+                dryRun: {
+                  type: "boolean",
+                  description:
+                    "Only report what would be created (default: false)",
+                },
               },
-              attendees: {
-                type: "array",
-                items: { type: "string" },
-                description: "List of attendee email addresses",
+            },
+          },
+          {
+            name: "respond_to_event",
+            description:
+              "Accept, decline or tentatively accept a calendar invitation, optionally with a comment",
+            inputSchema: {
+              type: "object",
+              properties: {
+                calendarId: {
+                  type: "string",
+                  description:
+                    'Calendar ID from list_calendars (default: "primary")',
+                },
+                eventId: {
+                  type: "string",
+                  description: "Event ID",
+                },
+                iCalUID: {
+                  type: "string",
+                  description:
+                    "iCalendar UID of the event (e.g. from read_email's invitations), instead of eventId",
+                },
+                messageId: {
+                  type: "string",
+                  description:
+                    "ID of an invitation email, instead of eventId; every invitation in it gets the response",
+                },
+                response: {
+                  type: "string",
+                  enum: ["accepted", "declined", "tentative"],
+                  description: "Your response",
+                },
+                comment: {
+                  type: "string",
+                  description: "Note to the organizer",
+                },
+                sendUpdates: {
+                  type: "string",
+                  enum: ["all", "externalOnly", "none"],
+                  description:
+                    "Whether the organizer is notified (default: all)",
+                },
               },
+              required: ["response"],
             },
-            required: ["summary", "start", "end"],
           },
-        },
-        {
-          name: "meeting_suggestion",
-          description:
-            "Suggest available meeting slots within the next 30 days",
-          inputSchema: {
-            type: "object",
-            properties: {
-              calendarIds: {
-                type: "array",
-                items: { type: "string" },
-                description:
-                  'List of Google Calendar IDs (default: ["primary"])',
+          {
+            name: "list_accounts",
+            description:
+              "List the configured Google accounts that tools can act on through their account argument",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "list_calendars",
+            description:
+              "List the calendars this account can see, with their access role and timezone",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "list_events",
+            description:
+              "List upcoming calendar events, optionally merged across several calendars",
+            inputSchema: {
+              type: "object",
+              properties: {
+                calendarId: {
+                  type: "string",
+                  description:
+                    'Calendar ID from list_calendars (default: "primary")',
+                },
+                calendarIds: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    "Several calendar IDs whose events are merged into one time-ordered list (overrides calendarId)",
+                },
+                maxResults: {
+                  type: "number",
+                  description:
+                    "Maximum number of events to return (default: 10)",
+                },
+                timeMin: {
+                  type: "string",
+                  description: "Start time in ISO format (default: now)",
+                },
+                timeMax: {
+                  type: "string",
+                  description: "End time in ISO format",
+                },
+                pageToken: {
+                  type: "string",
+                  description:
+                    "Cursor from a previous call's nextPageToken to fetch the next page. It keeps that call's timeMin, timeMax and calendars",
+                },
               },
-              meetingLengthMinutes: {
-                type: "number",
-                description: "Meeting length in minutes (default: 60)",
+            },
+          },
+          {
+            name: "create_event",
+            description: "Create a new calendar event",
+            inputSchema: {
+              type: "object",
+              properties: {
+                calendarId: {
+                  type: "string",
+                  description:
+                    'Calendar ID from list_calendars (default: "primary")',
+                },
+                summary: {
+                  type: "string",
+                  description: "Event title",
+                },
+                location: {
+                  type: "string",
+                  description: "Event location",
+                },
+                description: {
+                  type: "string",
+                  description: "Event description",
+                },
+                start: {
+                  type: "string",
+                  description:
+                    "Start time in ISO format, or a YYYY-MM-DD date for all-day events",
+                },
+                end: {
+                  type: "string",
+                  description:
+                    "End time in ISO format, or the last day (inclusive, default: the start day) for all-day events",
+                },
+                allDay: {
+                  type: "boolean",
+                  description: "Create an all-day event (default: false)",
+                },
+                timeZone: {
+                  type: "string",
+                  description:
+                    "IANA timezone for the event times and recurrence (default: the server's timezone)",
+                },
+                attendees: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "List of attendee email addresses",
+                },
+                recurrence: {
+                  description:
+                    'Repeat the event: an RRULE string or list of RRULE/EXDATE lines, a phrase such as "weekly on Mon/Wed until 2025-06-30", or an object with frequency, interval, byWeekday, until and count',
+                  anyOf: [
+                    { type: "string" },
+                    { type: "array", items: { type: "string" } },
+                    {
+                      type: "object",
+                      properties: {
+                        frequency: {
+                          type: "string",
+                          enum: ["daily", "weekly", "monthly", "yearly"],
+                        },
+                        interval: { type: "number" },
+                        byWeekday: {
+                          type: "array",
+                          items: { type: "string" },
+                        },
+                        until: { type: "string" },
+                        count: { type: "number" },
+                      },
+                      required: ["frequency"],
+                    },
+                  ],
+                },
+                reminders: {
+                  type: "array",
+                  description:
+                    "Custom reminders replacing the calendar defaults (an empty list disables reminders)",
+                  items: {
+                    type: "object",
+                    properties: {
+                      method: {
+                        type: "string",
+                        enum: ["popup", "email"],
+                      },
+                      minutes: {
+                        type: "number",
+                        description: "Minutes before the start",
+                      },
+                    },
+                    required: ["minutes"],
+                  },
+                },
+                visibility: {
+                  type: "string",
+                  enum: ["default", "public", "private", "confidential"],
+                  description: "Event visibility",
+                },
+                colorId: {
+                  type: "string",
+                  description: 'Event color ID ("1" to "11")',
+                },
+                createMeetLink: {
+                  type: "boolean",
+                  description:
+                    "Attach a newly generated Google Meet link (default: false)",
+                },
               },
-              workingHoursStart: {
-                type: "number",
-                description: "Start of working hours (24h format, default: 9)",
+              required: ["summary", "start"],
+            },
+          },
+          {
+            name: "update_event",
+            description:
+              "Update an existing calendar event. Only the given fields change; events can never be cancelled or deleted through this tool",
+            inputSchema: {
+              type: "object",
+              properties: {
+                calendarId: {
+                  type: "string",
+                  description:
+                    'Calendar ID from list_calendars (default: "primary")',
+                },
+                eventId: {
+                  type: "string",
+                  description: "Event ID",
+                },
+                summary: {
+                  type: "string",
+                  description: "New event title",
+                },
+                location: {
+                  type: "string",
+                  description: "New event location",
+                },
+                description: {
+                  type: "string",
+                  description: "New event description",
+                },
+                start: {
+                  type: "string",
+                  description:
+                    "New start time in ISO format, or a YYYY-MM-DD date for all-day events",
+                },
+                end: {
+                  type: "string",
+                  description:
+                    "New end time in ISO format, or the last day (inclusive) for all-day events",
+                },
+                allDay: {
+                  type: "boolean",
+                  description:
+                    "Make the event all-day or timed; switching needs both start and end (default: keep the current kind)",
+                },
+                addAttendees: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Attendee email addresses to invite",
+                },
+                removeAttendees: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Attendee email addresses to remove",
+                },
+                sendUpdates: {
+                  type: "string",
+                  enum: ["all", "externalOnly", "none"],
+                  description:
+                    "Who receives update notifications (default: none)",
+                },
               },
-              workingHoursEnd: {
-                type: "number",
-                description: "End of working hours (24h format, default: 17)",
+              required: ["eventId"],
+            },
+          },
+          {
+            name: "meeting_suggestion",
+            description:
+              "Suggest available meeting slots within the next 30 days",
+            inputSchema: {
+              type: "object",
+              properties: MEETING_SEARCH_PROPERTIES,
+            },
+          },
+          {
+            name: "list_holidays",
+            description:
+              "List the public holidays meeting_suggestion excludes for each participant, from holiday regions or .ics files",
+            inputSchema: {
+              type: "object",
+              properties: {
+                participants: MEETING_SEARCH_PROPERTIES.participants,
+                calendarIds: MEETING_SEARCH_PROPERTIES.calendarIds,
+                holidayRegion: MEETING_SEARCH_PROPERTIES.holidayRegion,
+                holidayFile: MEETING_SEARCH_PROPERTIES.holidayFile,
+                startDate: {
+                  type: "string",
+                  description: "First day to list, YYYY-MM-DD (default: today)",
+                },
+                days: {
+                  type: "number",
+                  description: "Number of days to list (default: 365)",
+                },
               },
-              timezone: {
-                type: "string",
-                description:
-                  "Timezone for scheduling (default: America/Sao_Paulo)",
+            },
+          },
+          {
+            name: "book_meeting",
+            description:
+              "Find a free slot with the meeting_suggestion logic, re-check it against fresh free/busy data and create the event. Returns alternatives if the slot was taken",
+            inputSchema: {
+              type: "object",
+              properties: {
+                ...MEETING_SEARCH_PROPERTIES,
+                summary: {
+                  type: "string",
+                  description: "Event title",
+                },
+                description: {
+                  type: "string",
+                  description: "Event description",
+                },
+                location: {
+                  type: "string",
+                  description: "Event location",
+                },
+                slotStart: {
+                  type: "string",
+                  description:
+                    "Start of the slot to book in ISO format, e.g. one returned by meeting_suggestion (default: the best-ranked slot)",
+                },
+                attendees: {
+                  type: "array",
+                  items: { type: "string" },
+                  description:
+                    "Extra attendee email addresses (participants with an email calendar ID are invited automatically)",
+                },
+                calendarId: {
+                  type: "string",
+                  description:
+                    'Calendar to create the event in (default: "primary")',
+                },
+                createMeetLink: {
+                  type: "boolean",
+                  description:
+                    "Attach a newly generated Google Meet link (default: false)",
+                },
+                sendUpdates: {
+                  type: "string",
+                  enum: ["all", "externalOnly", "none"],
+                  description: "Who receives invitations (default: all)",
+                },
               },
-              slotsPerDay: {
-                type: "number",
-                description: "Number of slots per day to suggest (default: 1)",
+              required: ["summary"],
+            },
+          },
+          {
+            name: "get_changes",
+            description:
+              "Return what changed in Gmail and Calendar since the last get_changes call: added and removed messages, label changes and event changes. The first call (or one after a checkpoint expired) does a full resync",
+            inputSchema: {
+              type: "object",
+              properties: {
+                sources: {
+                  type: "array",
+                  items: { type: "string", enum: ["gmail", "calendar"] },
+                  description: 'What to check (default: ["gmail", "calendar"])',
+                },
+                calendarIds: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: 'Calendars to check (default: ["primary"])',
+                },
+                maxResults: {
+                  type: "number",
+                  description:
+                    "Maximum number of messages or events returned per source (default: 100)",
+                },
+                reset: {
+                  type: "boolean",
+                  description:
+                    "Discard the stored checkpoints and do a full resync (default: false)",
+                },
               },
-              daysToSearch: {
-                type: "number",
-                description: "Number of days to find slots for (default: 3)",
+            },
+          },
+          {
+            name: "list_audit_log",
+            description:
+              "List recorded write actions of the selected account, newest first, with their arguments, previous state, resulting IDs and whether they can be undone",
+            inputSchema: {
+              type: "object",
+              properties: {
+                limit: {
+                  type: "number",
+                  description: "Maximum number of entries (default: 20)",
+                },
+                tool: {
+                  type: "string",
+                  description: "Only entries for this tool",
+                },
+                since: {
+                  type: "string",
+                  description: "Only entries at or after this ISO time",
+                },
               },
-              bankHolidays: {
-                type: "array",
-                items: { type: "string" },
-                description: "List of bank holiday dates in YYYY-MM-DD format",
+            },
+          },
+          {
+            name: "undo_action",
+            description:
+              "Reverse a recorded action: restore previous labels (including untrashing), event details, invitation responses or label settings, or remove a created label",
+            inputSchema: {
+              type: "object",
+              properties: {
+                auditId: {
+                  type: "string",
+                  description: "ID of the entry from list_audit_log",
+                },
+                sendUpdates: {
+                  type: "string",
+                  enum: ["all", "externalOnly", "none"],
+                  description:
+                    "Who is notified when an event change is reversed (default: none)",
+                },
               },
+              required: ["auditId"],
             },
           },
-        },
-      ],
+        ])
+      ),
     }));
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      switch (request.params.name) {
-        case "list_emails":
-          return await this.handleListEmails(request.params.arguments);
-        case "search_emails":
-          return await this.handleSearchEmails(request.params.arguments);
-        case "send_email":
-          return await this.handleSendEmail(request.params.arguments);
-        case "modify_email":
-          return await this.handleModifyEmail(request.params.arguments);
-        case "list_events":
-          return await this.handleListEvents(request.params.arguments);
-        case "create_event":
-          return await this.handleCreateEvent(request.params.arguments);
-        case "meeting_suggestion":
-          return await this.handleMeetingSuggestion(request.params.arguments);
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
-      }
-    });
-  }
+      const { name } = request.params;
+      let args = request.params.arguments;
+      POLICY.checkToolCall(name, args);
+      const account = this.getAccount(args?.account as string | undefined);
+      const startedAt = Date.now();
 
-  private async handleListEmails(args: any) {
-    try {
-      const maxResults = args?.maxResults || 10;
-      const query = args?.query || "";
+      const result = await this.accountScope.run(account, async () => {
+        if (POLICY.needsConfirmation(name, args)) {
+          const payload = await this.confirmationPayload(name, args);
+          const hash = payloadHash(name, account.name, payload);
+          if (!args?.confirmationToken) {
+            return await this.previewToolCall(name, args, hash);
+          }
+          CONFIRMATIONS.redeem(String(args.confirmationToken), hash);
+          args = payload;
+        }
+        POLICY.checkRateLimit(name);
+        if (!WRITE_TOOLS.includes(name) || args?.dryRun) {
+          return await this.callTool(name, args);
+        }
 
-      const response = await this.gmail.users.messages.list({
-        userId: "me",
-        maxResults,
-        q: query,
+        const details: AuditDetails = {};
+        const result = await this.auditScope.run(details, () =>
+          this.callTool(name, args)
+        );
+        await this.recordAudit(name, account.name, args, result, details);
+        return result;
       });
 
-      const messages = response.data.messages || [];
-      const emailDetails = await Promise.all(
-        messages.map(async (msg) => {
-          const detail = await this.gmail.users.messages.get({
-            userId: "me",
-            id: msg.id!,
-          });
-
-          const headers = detail.data.payload?.headers;
-          const subject =
-            headers?.find((h) => h.name === "Subject")?.value || "";
-          const from = headers?.find((h) => h.name === "From")?.value || "";
-          const date = headers?.find((h) => h.name === "Date")?.value || "";
-
-          return {
-            id: msg.id,
-            subject,
-            from,
-            date,
-          };
-        })
-      );
+      const failed = "isError" in result && !!result.isError;
+      logger.info("tools", `${name} ${failed ? "failed" : "finished"}`, {
+        tool: name,
+        account: account.name,
+        durationMs: Date.now() - startedAt,
+      });
+      return result;
+    });
+  }
 
+  // The arguments a confirmation is bound to. send_draft names its draft
+  // only by ID and attachments may be named by path, so the hash also covers
+  // the draft's content and the attachment files, and the handlers check
+  // them again right before sending.
+  private async confirmationPayload(name: string, args: any) {
+    if (name === "send_draft") {
+      return { ...args, draftHash: await this.draftHash(args?.id) };
+    }
+    if (args?.attachments?.some((spec: any) => spec?.path)) {
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(emailDetails, null, 2),
-          },
-        ],
-      };
-    } catch (error: any) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error fetching emails: ${error.message}`,
-          },
-        ],
-        isError: true,
+        ...args,
+        attachmentHashes: this.attachmentHashes(
+          await this.loadAttachments(args.attachments)
+        ),
       };
     }
+    return args;
   }
 
-  private async handleSearchEmails(args: any) {
-    try {
-      const maxResults = args?.maxResults || 10;
-      const query = args?.query || "";
-
-      const response = await this.gmail.users.messages.list({
-        userId: "me",
-        maxResults,
-        q: query,
-      });
-
-      const messages = response.data.messages || [];
-      const emailDetails = await Promise.all(
-        messages.map(async (msg) => {
-          const detail = await this.gmail.users.messages.get({
-            userId: "me",
-            id: msg.id!,
-          });
-
-          const headers = detail.data.payload?.headers;
-          const subject =
-            headers?.find((h) => h.name === "Subject")?.value || "";
-          const from = headers?.find((h) => h.name === "From")?.value || "";
-          const date = headers?.find((h) => h.name === "Date")?.value || "";
+  private attachmentHashes(attachments: OutgoingAttachment[]) {
+    return attachments.map((attachment) => hashContent(attachment.content));
+  }
 
-          return {
-            id: msg.id,
-            subject,
-            from,
-            date,
-          };
-        })
-      );
+  private async draftHash(id: string) {
+    const draft = await this.gmail.users.drafts.get({
+      userId: "me",
+      id,
+      format: "raw",
+    });
+    return hashContent(draft.data.message?.raw || "");
+  }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(emailDetails, null, 2),
-          },
-        ],
-      };
-    } catch (error: any) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error fetching emails: ${error.message}`,
-          },
-        ],
-        isError: true,
-      };
-    }
+  private noteAudit(details: AuditDetails) {
+    const current = this.auditScope.getStore();
+    if (!current) return;
+    if (details.before !== undefined) current.before = details.before;
+    current.resultIds = { ...current.resultIds, ...details.resultIds };
   }
 
-  private async handleSendEmail(args: any) {
+  // A failed write to the log must not hide that the action itself happened,
+  // so it is only reported on stderr.
+  private async recordAudit(
+    tool: string,
+    account: string,
+    args: any,
+    result: { content: { type: string; text?: string }[]; isError?: boolean },
+    details: AuditDetails
+  ) {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      account,
+      tool,
+      arguments: sanitizeArguments(args),
+      isError: !!result.isError,
+      result: truncateResult(
+        result.content.map((part) => part.text || "").join("\n")
+      ),
+      ...details,
+    };
     try {
-      const { to, subject, body, cc, bcc } = args;
-
-      // Create email content
-      const message = [
-        "Content-Type: text/html; charset=utf-8",
-        "MIME-Version: 1.0",
-        `To: ${to}`,
-        cc ? `Cc: ${cc}` : "",
-        bcc ? `Bcc: ${bcc}` : "",
-        `Subject: ${subject}`,
-        "",
-        body,
-      ]
-        .filter(Boolean)
-        .join("\r\n");
-
-      // Encode the email
-      const encodedMessage = Buffer.from(message)
-        .toString("base64")
-        .replace(/\+/g, "-")
-        .replace(/\//g, "_")
-        .replace(/=+$/, "");
+      await appendAuditEntry(AUDIT_LOG, entry);
+    } catch (error) {
+      logger.error("audit", `Could not write to ${AUDIT_LOG}`, error);
+    }
+  }
+
+  // First half of a confirmed call: shows exactly what the tool would do and
+  // issues a token that only works for these arguments.
+  private async previewToolCall(name: string, args: any, hash: string) {
+    let preview: unknown;
+    switch (name) {
+      case "send_email":
+      case "create_draft": {
+        const { raw } = await this.composeRawMessage(args);
+        preview = previewMimeMessage(decodeBase64Url(raw).toString("utf-8"));
+        break;
+      }
+      case "reply_to_email": {
+        const { message } = await this.composeReply(args);
+        preview = previewMimeMessage(message);
+        break;
+      }
+      case "send_draft": {
+        const draft = await this.gmail.users.drafts.get({
+          userId: "me",
+          id: args?.id,
+          format: "raw",
+        });
+        preview = previewMimeMessage(
+          decodeBase64Url(draft.data.message?.raw || "").toString("utf-8")
+        );
+        break;
+      }
+      case "create_event":
+        preview = await this.previewEvent(this.buildEventResource(args));
+        break;
+      default: {
+        const { confirmationToken, account, ...rest } = args || {};
+        preview = { arguments: rest };
+      }
+    }
+
+    const { token, expiresAt } = CONFIRMATIONS.issue(hash);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              confirmationRequired: true,
+              tool: name,
+              preview,
+              confirmationToken: token,
+              expiresAt,
+              instructions: `Show this preview to the user. If they approve, call ${name} again with exactly the same arguments plus this confirmationToken`,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  // Shows the event times as each attendee will see them, using their
+  // calendar's timezone where this account can read it.
+  private async previewEvent(event: calendar_v3.Schema$Event) {
+    const timeZone =
+      event.start?.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const start = event.start?.dateTime
+      ? DateTime.fromISO(event.start.dateTime, { zone: timeZone })
+      : undefined;
+    const end = event.end?.dateTime
+      ? DateTime.fromISO(event.end.dateTime, { zone: timeZone })
+      : undefined;
+    const format = "ccc d LLL yyyy, HH:mm ZZZZ";
+
+    const attendees = await mapWithConcurrency(
+      event.attendees || [],
+      MESSAGE_FETCH_CONCURRENCY,
+      async (attendee) => {
+        let attendeeZone: string | undefined;
+        try {
+          const calendarInfo = await this.calendar.calendars.get({
+            calendarId: attendee.email!,
+          });
+          attendeeZone = calendarInfo.data.timeZone || undefined;
+        } catch {
+          // Calendars outside the account's reach do not reveal a timezone
+        }
+        return {
+          email: attendee.email,
+          timeZone: attendeeZone || "unknown",
+          ...(attendeeZone && start && end
+            ? {
+                start: start.setZone(attendeeZone).toFormat(format),
+                end: end.setZone(attendeeZone).toFormat(format),
+              }
+            : {}),
+        };
+      }
+    );
+
+    return {
+      summary: event.summary,
+      location: event.location,
+      start: start ? start.toFormat(format) : event.start?.date,
+      end: end ? end.toFormat(format) : event.end?.date,
+      recurrence: event.recurrence,
+      createsMeetLink: !!event.conferenceData,
+      attendees,
+      event,
+    };
+  }
+
+  private async callTool(name: string, args: any) {
+    switch (name) {
+      case "list_emails":
+      case "search_emails":
+        return await this.handleListEmails(args);
+      case "read_email":
+        return await this.handleReadEmail(args);
+      case "send_email":
+        return await this.handleSendEmail(args);
+      case "create_draft":
+        return await this.handleCreateDraft(args);
+      case "list_drafts":
+        return await this.handleListDrafts(args);
+      case "get_draft":
+        return await this.handleGetDraft(args);
+      case "update_draft":
+        return await this.handleUpdateDraft(args);
+      case "send_draft":
+        return await this.handleSendDraft(args);
+      case "get_thread":
+        return await this.handleGetThread(args);
+      case "reply_to_email":
+        return await this.handleReplyToEmail(args);
+      case "get_attachment":
+        return await this.handleGetAttachment(args);
+      case "modify_email":
+        return await this.handleModifyEmail(args);
+      case "batch_modify_emails":
+        return await this.handleBatchModifyEmails(args);
+      case "list_labels":
+        return await this.handleListLabels(args);
+      case "create_label":
+        return await this.handleCreateLabel(args);
+      case "update_label":
+        return await this.handleUpdateLabel(args);
+      case "delete_label":
+        return await this.handleDeleteLabel(args);
+      case "export_events_ics":
+        return await this.handleExportEventsIcs(args);
+      case "import_ics":
+        return await this.handleImportIcs(args);
+      case "respond_to_event":
+        return await this.handleRespondToEvent(args);
+      case "list_accounts":
+        return await this.handleListAccounts();
+      case "list_calendars":
+        return await this.handleListCalendars(args);
+      case "list_events":
+        return await this.handleListEvents(args);
+      case "create_event":
+        return await this.handleCreateEvent(args);
+      case "update_event":
+        return await this.handleUpdateEvent(args);
+      case "meeting_suggestion":
+        return await this.handleMeetingSuggestion(args);
+      case "list_holidays":
+        return await this.handleListHolidays(args);
+      case "book_meeting":
+        return await this.handleBookMeeting(args);
+      case "get_changes":
+        return await this.handleGetChanges(args);
+      case "list_audit_log":
+        return await this.handleListAuditLog(args);
+      case "undo_action":
+        return await this.handleUndoAction(args);
+      default:
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [
+        {
+          uri: "gmail://label/INBOX",
+          name: "Inbox",
+          description: "The most recent emails in the inbox",
+          mimeType: "application/json",
+        },
+        {
+          uri: "calendar://primary/agenda/today",
+          name: "Today's agenda",
+          description: "Today's events on the primary calendar",
+          mimeType: "application/json",
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async () => ({ resourceTemplates: RESOURCE_TEMPLATES })
+    );
+
+    this.server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request) => {
+        const { uri } = request.params;
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: "application/json",
+              text: await this.readResource(uri),
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.subscriptions.set(uri, hashContent(await this.readResource(uri)));
+      this.startResourcePolling();
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      if (this.subscriptions.size === 0) this.stopResourcePolling();
+      return {};
+    });
+  }
+
+  private setupLoggingHandlers() {
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.clientLogLevel = request.params.level;
+      return {};
+    });
+
+    // A client gets the records of its own requests and those of the
+    // server as a whole, never another session's.
+    this.stopLogForwarding = logger.subscribe((record) => {
+      if (
+        (record.session && record.session !== this.logSession) ||
+        !this.clientLogLevel ||
+        !isLevelEnabled(record.level, this.clientLogLevel)
+      ) {
+        return;
+      }
+      this.server
+        .sendLoggingMessage({
+          level: record.level,
+          logger: record.logger,
+          data: { message: record.message, data: record.data },
+        })
+        .catch(() => {
+          // The client went away; the log still reached stderr
+        });
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS,
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      const prompt = PROMPTS.find((candidate) => candidate.name === name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+
+      return {
+        description: prompt.description,
+        messages: [
+          {
+            role: "user" as const,
+            content: { type: "text" as const, text: PROMPT_INSTRUCTIONS[name] },
+          },
+          ...(await this.promptData(name, args)).map(({ uri, text }) => ({
+            role: "user" as const,
+            content: {
+              type: "resource" as const,
+              resource: { uri, mimeType: "application/json", text },
+            },
+          })),
+        ],
+      };
+    });
+  }
+
+  // Prompts are filled in through the same handlers the tools use, so the
+  // model sees exactly what it would get from calling them itself.
+  private async promptData(
+    name: string,
+    args: Record<string, string>
+  ): Promise<{ uri: string; text: string }[]> {
+    switch (name) {
+      case "inbox_triage": {
+        const query = args.query || "in:inbox is:unread";
+        const emails = await this.handleListEmails({
+          query,
+          maxResults: Number(args.max) || 20,
+        });
+        return [
+          {
+            uri: `gmail://search/${encodeURIComponent(query)}`,
+            text: toolResultText(emails),
+          },
+        ];
+      }
+      case "daily_briefing": {
+        const calendarId = args.calendarId || "primary";
+        const calendarInfo = await this.calendar.calendars.get({ calendarId });
+        const today = DateTime.now().setZone(
+          calendarInfo.data.timeZone || "UTC"
+        );
+        const events = await this.handleListEvents({
+          calendarId,
+          timeMin: today.startOf("day").toISO(),
+          timeMax: today.endOf("day").toISO(),
+          maxResults: 50,
+        });
+        const query = "is:unread is:important";
+        const emails = await this.handleListEmails({ query, maxResults: 20 });
+        return [
+          {
+            uri: `calendar://${encodeURIComponent(calendarId)}/agenda/today`,
+            text: toolResultText(events),
+          },
+          {
+            uri: `gmail://search/${encodeURIComponent(query)}`,
+            text: toolResultText(emails),
+          },
+        ];
+      }
+      case "meeting_prep": {
+        if (!args.eventId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "meeting_prep requires an eventId"
+          );
+        }
+        const calendarId = args.calendarId || "primary";
+        const event = await this.calendar.events.get({
+          calendarId,
+          eventId: args.eventId,
+        });
+        const attendees = (event.data.attendees || []).filter(
+          (attendee) => attendee.email && !attendee.self && !attendee.resource
+        );
+
+        const threads = await mapWithConcurrency(
+          attendees,
+          MESSAGE_FETCH_CONCURRENCY,
+          async (attendee) => {
+            const query = `from:${attendee.email} OR to:${attendee.email}`;
+            const emails = await this.handleListEmails({
+              query,
+              maxResults: 5,
+            });
+            return {
+              uri: `gmail://search/${encodeURIComponent(query)}`,
+              text: toolResultText(emails),
+            };
+          }
+        );
+
+        return [
+          {
+            uri: `calendar://${encodeURIComponent(calendarId)}/event/${
+              args.eventId
+            }`,
+            text: JSON.stringify(event.data, null, 2),
+          },
+          ...threads,
+        ];
+      }
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+  }
+
+  private async readResource(uri: string): Promise<string> {
+    const target = parseResourceUri(uri);
+    if (!target) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    switch (target.kind) {
+      case "message": {
+        const response = await this.gmail.users.messages.get({
+          userId: "me",
+          id: target.id,
+          format: "full",
+        });
+        return JSON.stringify(this.formatFullMessage(response.data), null, 2);
+      }
+      case "thread":
+        return JSON.stringify(await this.fetchThread(target.id), null, 2);
+      case "label": {
+        const [labelId] = await this.resolveLabelIds([target.name], false);
+        const response = await this.gmail.users.messages.list({
+          userId: "me",
+          labelIds: [labelId],
+          maxResults: 20,
+        });
+        const messages = await this.fetchMessageSummaries(
+          (response.data.messages || []).map((msg) => msg.id!)
+        );
+        return JSON.stringify(
+          { label: target.name, labelId, messages },
+          null,
+          2
+        );
+      }
+      case "event": {
+        const response = await this.calendar.events.get({
+          calendarId: target.calendarId,
+          eventId: target.id,
+        });
+        return JSON.stringify(response.data, null, 2);
+      }
+      case "agenda": {
+        const calendarInfo = await this.calendar.calendars.get({
+          calendarId: target.calendarId,
+        });
+        const today = DateTime.now().setZone(
+          calendarInfo.data.timeZone || "UTC"
+        );
+        const response = await this.calendar.events.list({
+          calendarId: target.calendarId,
+          timeMin: today.startOf("day").toISO()!,
+          timeMax: today.endOf("day").toISO()!,
+          singleEvents: true,
+          orderBy: "startTime",
+        });
+        const events = (response.data.items || []).map((event) => ({
+          id: event.id,
+          summary: event.summary,
+          start: event.start,
+          end: event.end,
+          location: event.location,
+          attendees: event.attendees?.map((attendee) => attendee.email),
+          meetLink: event.hangoutLink,
+        }));
+        return JSON.stringify(
+          { date: today.toISODate(), timeZone: today.zoneName, events },
+          null,
+          2
+        );
+      }
+    }
+  }
+
+  private startResourcePolling() {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(
+      () => void this.pollSubscriptions(),
+      RESOURCE_POLL_SECONDS * 1000
+    );
+    this.pollTimer.unref();
+  }
+
+  private stopResourcePolling() {
+    clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+  }
+
+  // Google has no push channel we can use over stdio, so subscribed
+  // resources are re-read periodically and clients are notified on change.
+  private async pollSubscriptions() {
+    for (const [uri, previous] of this.subscriptions) {
+      try {
+        const current = hashContent(await this.readResource(uri));
+        if (current !== previous && this.subscriptions.has(uri)) {
+          this.subscriptions.set(uri, current);
+          await this.server.sendResourceUpdated({ uri });
+        }
+      } catch (error) {
+        logger.warning("resources", `Could not poll ${uri}`, error);
+      }
+    }
+  }
+
+  private async handleListEmails(args: any) {
+    try {
+      const maxResults = args?.maxResults || 10;
+      const query = args?.query || "";
+      const pageToken = args?.pageToken;
+
+      const response = await this.gmail.users.messages.list({
+        userId: "me",
+        maxResults,
+        q: query,
+        pageToken,
+      });
+
+      const messages = await this.fetchMessageSummaries(
+        (response.data.messages || []).map((msg) => msg.id!)
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                messages,
+                nextPageToken: response.data.nextPageToken || undefined,
+                resultSizeEstimate: response.data.resultSizeEstimate,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error fetching emails", error);
+    }
+  }
+
+  // Shared by every tool that lists messages: only the headers we show are
+  // requested, and at most MESSAGE_FETCH_CONCURRENCY requests run at once.
+  private async fetchMessageSummaries(ids: string[]) {
+    return mapWithConcurrency(ids, MESSAGE_FETCH_CONCURRENCY, async (id) => {
+      const detail = await this.gmail.users.messages.get({
+        userId: "me",
+        id,
+        format: "metadata",
+        metadataHeaders: ["Subject", "From", "Date"],
+      });
+      const headers = detail.data.payload?.headers;
+
+      return {
+        id,
+        threadId: detail.data.threadId,
+        subject: getHeader(headers, "Subject"),
+        from: getHeader(headers, "From"),
+        date: getHeader(headers, "Date"),
+        labels: detail.data.labelIds || [],
+      };
+    });
+  }
+
+  private async handleReadEmail(args: any) {
+    try {
+      const { id, includeHtml = false, calendarId = "primary" } = args;
+
+      const response = await this.gmail.users.messages.get({
+        userId: "me",
+        id,
+        format: "full",
+      });
+
+      const { invitations, errors } = await this.readInvitations(
+        response.data,
+        calendarId
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                ...this.formatFullMessage(response.data, includeHtml),
+                ...(invitations.length ? { invitations } : {}),
+                ...(errors.length
+                  ? { invitationError: errors.join("; ") }
+                  : {}),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error reading email", error);
+    }
+  }
+
+  // Parses text/calendar parts of a message and links each invitation to
+  // the matching event on the given calendar by its iCalendar UID. Parts
+  // that cannot be read or linked are reported in errors, so the email
+  // itself stays readable.
+  private async readInvitations(
+    message: gmail_v1.Schema$Message,
+    calendarId = "primary"
+  ) {
+    const { calendarParts } = extractMessageContent(message.payload);
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const invitations: Array<
+      InvitationSummary & { eventId?: string; responseStatus?: string }
+    > = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    for (const part of calendarParts) {
+      let summaries: InvitationSummary[];
+      try {
+        const data = part.data
+          ? decodeBase64Url(part.data)
+          : await this.fetchAttachmentData(message.id!, part.attachmentId!);
+        summaries = summarizeInvitation(data.toString("utf-8"), timeZone);
+      } catch (error: any) {
+        errors.push(`Could not read invitation: ${error.message}`);
+        continue;
+      }
+
+      for (const invitation of summaries) {
+        const key = `${invitation.uid}|${invitation.recurrenceId || ""}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        let event: calendar_v3.Schema$Event | undefined;
+        try {
+          event = invitation.uid
+            ? await this.findEventByICalUID(calendarId, invitation.uid)
+            : undefined;
+        } catch (error: any) {
+          errors.push(
+            `Could not look up ${invitation.uid} on ${calendarId}: ${error.message}`
+          );
+        }
+        invitations.push({
+          ...invitation,
+          eventId: event?.id || undefined,
+          responseStatus:
+            event?.attendees?.find((attendee) => attendee.self)
+              ?.responseStatus || undefined,
+        });
+      }
+    }
+
+    return { invitations, errors };
+  }
+
+  private async findEventByICalUID(calendarId: string, iCalUID: string) {
+    const response = await this.calendar.events.list({ calendarId, iCalUID });
+    return response.data.items?.find((item) => item.status !== "cancelled");
+  }
+
+  private formatFullMessage(
+    message: gmail_v1.Schema$Message,
+    includeHtml = false
+  ) {
+    const headers = message.payload?.headers;
+    const { text, html, attachments } = extractMessageContent(message.payload);
+
+    return {
+      id: message.id,
+      threadId: message.threadId,
+      subject: getHeader(headers, "Subject"),
+      from: getHeader(headers, "From"),
+      to: getHeader(headers, "To"),
+      cc: getHeader(headers, "Cc"),
+      date: getHeader(headers, "Date"),
+      labels: message.labelIds || [],
+      snippet: message.snippet || "",
+      body: text || htmlToText(html),
+      ...(includeHtml && html ? { html } : {}),
+      attachments,
+      mimeStructure: message.payload
+        ? describeMimeTree(message.payload)
+        : undefined,
+    };
+  }
+
+  private async handleSendEmail(args: any) {
+    try {
+      const { raw, threadId } = await this.composeRawMessage(args);
 
       // Send the email
       const response = await this.gmail.users.messages.send({
         userId: "me",
         requestBody: {
-          raw: encodedMessage,
+          raw,
+          threadId,
+        },
+      });
+      this.noteAudit({
+        resultIds: {
+          messageId: response.data.id,
+          threadId: response.data.threadId,
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Email sent successfully. Message ID: ${response.data.id}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error sending email", error);
+    }
+  }
+
+  // Builds the base64url-encoded RFC 2822 message used by send_email and the
+  // draft tools, threading it under replyToMessageId when one is given.
+  // carried holds what an updated draft keeps: its In-Reply-To/References
+  // headers unless it is (re)addressed as a reply with replyToMessageId, and
+  // its attachments, which go before any newly given ones.
+  private async composeRawMessage(
+    args: any,
+    carried: {
+      inReplyTo?: string;
+      references?: string;
+      attachments?: OutgoingAttachment[];
+    } = {}
+  ) {
+    const { to, body, cc, bcc, replyToMessageId } = args;
+    let { subject } = args;
+    POLICY.checkRecipients(
+      [to, cc, bcc].flatMap((list) => (list ? parseAddressList(list) : []))
+    );
+    const attachments = await this.loadAttachments(args.attachments);
+    if (
+      args.attachmentHashes &&
+      JSON.stringify(this.attachmentHashes(attachments)) !==
+        JSON.stringify(args.attachmentHashes)
+    ) {
+      throw new Error(
+        "An attachment file changed after the message was confirmed. Call the tool again without confirmationToken to preview it"
+      );
+    }
+
+    let threadId: string | undefined;
+    let { inReplyTo, references } = carried;
+    if (replyToMessageId) {
+      const original = await this.gmail.users.messages.get({
+        userId: "me",
+        id: replyToMessageId,
+        format: "metadata",
+        metadataHeaders: ["Subject", "Message-ID", "References"],
+      });
+      const headers = original.data.payload?.headers;
+      threadId = original.data.threadId || undefined;
+      inReplyTo = getHeader(headers, "Message-ID") || undefined;
+      references =
+        [getHeader(headers, "References"), inReplyTo]
+          .filter(Boolean)
+          .join(" ") || undefined;
+      if (!subject) {
+        const originalSubject = getHeader(headers, "Subject");
+        subject = /^re:/i.test(originalSubject.trim())
+          ? originalSubject
+          : `Re: ${originalSubject}`;
+      }
+    }
+
+    const message = buildMimeMessage({
+      to,
+      subject: subject || "",
+      body,
+      cc,
+      bcc,
+      inReplyTo,
+      references,
+      attachments: [...(carried.attachments || []), ...attachments],
+    });
+
+    return { raw: encodeBase64Url(message), threadId };
+  }
+
+  private async handleCreateDraft(args: any) {
+    try {
+      const { raw, threadId } = await this.composeRawMessage(args);
+
+      const response = await this.gmail.users.drafts.create({
+        userId: "me",
+        requestBody: {
+          message: { raw, threadId },
+        },
+      });
+      this.noteAudit({
+        resultIds: {
+          draftId: response.data.id,
+          messageId: response.data.message?.id,
         },
       });
 
@@ -429,350 +2365,2701 @@ class GoogleWorkspaceServer {
         content: [
           {
             type: "text",
-            text: `Email sent successfully. Message ID: ${response.data.id}`,
+            text: `Draft created successfully. Draft ID: ${response.data.id}, Message ID: ${response.data.message?.id}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error creating draft", error);
+    }
+  }
+
+  private async handleListDrafts(args: any) {
+    try {
+      const maxResults = args?.maxResults || 10;
+      const query = args?.query || "";
+
+      const response = await this.gmail.users.drafts.list({
+        userId: "me",
+        maxResults,
+        q: query,
+      });
+
+      const drafts = await mapWithConcurrency(
+        response.data.drafts || [],
+        MESSAGE_FETCH_CONCURRENCY,
+        async (draft) => {
+          const detail = await this.gmail.users.drafts.get({
+            userId: "me",
+            id: draft.id!,
+            format: "metadata",
+          });
+          const message = detail.data.message;
+          const headers = message?.payload?.headers;
+
+          return {
+            id: draft.id,
+            messageId: message?.id,
+            threadId: message?.threadId,
+            subject: getHeader(headers, "Subject"),
+            to: getHeader(headers, "To"),
+            snippet: message?.snippet || "",
+          };
+        }
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(drafts, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error fetching drafts", error);
+    }
+  }
+
+  private async handleGetDraft(args: any) {
+    try {
+      const { id, includeHtml = false } = args;
+
+      const response = await this.gmail.users.drafts.get({
+        userId: "me",
+        id,
+        format: "full",
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                draftId: response.data.id,
+                ...this.formatFullMessage(
+                  response.data.message || {},
+                  includeHtml
+                ),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error fetching draft", error);
+    }
+  }
+
+  private async handleUpdateDraft(args: any) {
+    try {
+      const { id } = args;
+
+      // drafts.update replaces the whole message, so carry over any field
+      // the caller did not supply from the current draft.
+      const existing = await this.gmail.users.drafts.get({
+        userId: "me",
+        id,
+        format: "full",
+      });
+      const message = existing.data.message;
+      const headers = message?.payload?.headers;
+      const { text, html } = extractMessageContent(message?.payload);
+
+      const { raw, threadId } = await this.composeRawMessage(
+        {
+          ...args,
+          to: args.to ?? getHeader(headers, "To"),
+          cc: args.cc ?? getHeader(headers, "Cc"),
+          bcc: args.bcc ?? getHeader(headers, "Bcc"),
+          subject:
+            args.subject ??
+            (args.replyToMessageId ? undefined : getHeader(headers, "Subject")),
+          body:
+            args.body ?? (html || escapeHtml(text).replace(/\r?\n/g, "<br>")),
+        },
+        {
+          inReplyTo: getHeader(headers, "In-Reply-To") || undefined,
+          references: getHeader(headers, "References") || undefined,
+          // A new attachment list replaces the current one; [] removes all
+          attachments:
+            args.attachments === undefined
+              ? await this.downloadAttachments(message?.id!, message?.payload)
+              : [],
+        }
+      );
+
+      const response = await this.gmail.users.drafts.update({
+        userId: "me",
+        id,
+        requestBody: {
+          message: {
+            raw,
+            threadId: threadId || message?.threadId,
+          },
+        },
+      });
+      this.noteAudit({
+        resultIds: {
+          draftId: response.data.id,
+          messageId: response.data.message?.id,
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Draft updated successfully. Draft ID: ${response.data.id}, Message ID: ${response.data.message?.id}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error updating draft", error);
+    }
+  }
+
+  private async handleSendDraft(args: any) {
+    try {
+      const { id } = args;
+
+      if (POLICY.hasRecipientRules) {
+        const draft = await this.gmail.users.drafts.get({
+          userId: "me",
+          id,
+          format: "metadata",
+        });
+        const headers = draft.data.message?.payload?.headers;
+        POLICY.checkRecipients(
+          ["To", "Cc", "Bcc"].flatMap((name) =>
+            parseAddressList(getHeader(headers, name))
+          )
+        );
+      }
+
+      if (args.draftHash && (await this.draftHash(id)) !== args.draftHash) {
+        throw new Error(
+          "The draft changed after it was confirmed. Call send_draft again without confirmationToken to preview it"
+        );
+      }
+
+      const response = await this.gmail.users.drafts.send({
+        userId: "me",
+        requestBody: { id },
+      });
+      this.noteAudit({
+        resultIds: {
+          messageId: response.data.id,
+          threadId: response.data.threadId,
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Draft sent successfully. Message ID: ${response.data.id}, Thread ID: ${response.data.threadId}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error sending draft", error);
+    }
+  }
+
+  private async handleGetThread(args: any) {
+    try {
+      const { threadId } = args;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(await this.fetchThread(threadId), null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error fetching thread", error);
+    }
+  }
+
+  private async fetchThread(threadId: string) {
+    const response = await this.gmail.users.threads.get({
+      userId: "me",
+      id: threadId,
+      format: "full",
+    });
+
+    const messages = (response.data.messages || [])
+      .slice()
+      .sort((a, b) => Number(a.internalDate || 0) - Number(b.internalDate || 0))
+      .map((message) => this.formatFullMessage(message));
+
+    return { threadId: response.data.id, messages };
+  }
+
+  private async handleReplyToEmail(args: any) {
+    try {
+      const { message, mode, threadId } = await this.composeReply(args);
+
+      const response = await this.gmail.users.messages.send({
+        userId: "me",
+        requestBody: {
+          raw: encodeBase64Url(message),
+          threadId,
+        },
+      });
+      this.noteAudit({
+        resultIds: {
+          messageId: response.data.id,
+          threadId: response.data.threadId,
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${
+              mode === "forward" ? "Email forwarded" : "Reply sent"
+            } successfully. Message ID: ${response.data.id}, Thread ID: ${
+              response.data.threadId
+            }`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error replying to email", error);
+    }
+  }
+
+  // Works out recipients, subject, quoting and attachments for a reply or
+  // forward and returns the finished MIME message.
+  private async composeReply(args: any) {
+    const {
+      messageId,
+      body,
+      mode = "reply",
+      to,
+      cc,
+      bcc,
+      includeQuote = true,
+      includeAttachments = mode === "forward",
+    } = args;
+
+    if (mode === "forward" && !to) {
+      throw new Error("A 'to' address is required when forwarding");
+    }
+
+    const original = await this.gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "full",
+    });
+    const headers = original.data.payload?.headers;
+    const originalSubject = getHeader(headers, "Subject");
+    const originalFrom = getHeader(headers, "From");
+    const originalDate = getHeader(headers, "Date");
+    const originalMessageId = getHeader(headers, "Message-ID");
+    const originalReferences = getHeader(headers, "References");
+
+    let recipients: string[] = [];
+    let ccRecipients: string[] = cc ? parseAddressList(cc) : [];
+    if (mode === "forward") {
+      recipients = parseAddressList(to);
+    } else {
+      const profile = await this.gmail.users.getProfile({ userId: "me" });
+      const self = (profile.data.emailAddress || "").toLowerCase();
+
+      recipients = parseAddressList(
+        getHeader(headers, "Reply-To") || originalFrom
+      );
+      if (to) recipients.push(...parseAddressList(to));
+
+      if (mode === "replyAll") {
+        recipients.push(...parseAddressList(getHeader(headers, "To")));
+        ccRecipients.push(...parseAddressList(getHeader(headers, "Cc")));
+      }
+
+      // Drop ourselves and duplicates; a recipient in To wins over Cc.
+      const seen = new Set<string>([self]);
+      const dedupe = (address: string) => {
+        const email = extractEmailAddress(address);
+        if (seen.has(email)) return false;
+        seen.add(email);
+        return true;
+      };
+      recipients = recipients.filter(dedupe);
+      ccRecipients = ccRecipients.filter(dedupe);
+
+      // Replying to a message we sent ourselves: answer its recipients.
+      if (recipients.length === 0) {
+        recipients = parseAddressList(getHeader(headers, "To"));
+      }
+    }
+
+    if (recipients.length === 0) {
+      throw new Error("Could not determine any recipients for the reply");
+    }
+
+    POLICY.checkRecipients([
+      ...recipients,
+      ...ccRecipients,
+      ...(bcc ? parseAddressList(bcc) : []),
+    ]);
+
+    const prefix = mode === "forward" ? "Fwd:" : "Re:";
+    const prefixPattern = mode === "forward" ? /^(fwd?|fw):/i : /^re:/i;
+    const subject = prefixPattern.test(originalSubject.trim())
+      ? originalSubject
+      : `${prefix} ${originalSubject}`;
+
+    let fullBody = body;
+    if (includeQuote || mode === "forward") {
+      const { text, html } = extractMessageContent(original.data.payload);
+      const quotedContent = html || escapeHtml(text).replace(/\r?\n/g, "<br>");
+      const attribution =
+        mode === "forward"
+          ? [
+              "---------- Forwarded message ---------",
+              `From: ${escapeHtml(originalFrom)}`,
+              `Date: ${escapeHtml(originalDate)}`,
+              `Subject: ${escapeHtml(originalSubject)}`,
+              `To: ${escapeHtml(getHeader(headers, "To"))}`,
+            ].join("<br>")
+          : `On ${escapeHtml(originalDate)}, ${escapeHtml(
+              originalFrom
+            )} wrote:`;
+      fullBody = `${body}<br><br><div class="gmail_quote">${attribution}<br><blockquote class="gmail_quote" style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${quotedContent}</blockquote></div>`;
+    }
+
+    const attachments = includeAttachments
+      ? await this.downloadAttachments(messageId, original.data.payload)
+      : [];
+
+    const message = buildMimeMessage({
+      to: recipients.join(", "),
+      cc: ccRecipients.join(", "),
+      bcc,
+      subject,
+      body: fullBody,
+      attachments,
+      ...(mode === "forward"
+        ? {}
+        : {
+            inReplyTo: originalMessageId,
+            references: [originalReferences, originalMessageId]
+              .filter(Boolean)
+              .join(" "),
+          }),
+    });
+
+    return {
+      message,
+      mode,
+      threadId:
+        mode === "forward" ? undefined : original.data.threadId || undefined,
+    };
+  }
+
+  private localPath(
+    path: string,
+    baseDir: string | undefined,
+    setting: string
+  ) {
+    return resolvePathArgument(path, baseDir, setting, this.remote);
+  }
+
+  private async loadAttachments(specs: any[] = []) {
+    const attachments: OutgoingAttachment[] = [];
+
+    for (const spec of specs) {
+      if (spec.path) {
+        const path = await this.localPath(
+          spec.path,
+          ATTACHMENT_DIR,
+          "GOOGLE_ATTACHMENT_DIR"
+        );
+        const filename = spec.filename || basename(path);
+        attachments.push({
+          filename,
+          mimeType: spec.mimeType || guessMimeType(filename),
+          content: await readFile(path),
+        });
+      } else if (spec.content) {
+        if (!spec.filename) {
+          throw new Error("Attachments given as content need a filename");
+        }
+        attachments.push({
+          filename: spec.filename,
+          mimeType: spec.mimeType || guessMimeType(spec.filename),
+          content: Buffer.from(spec.content, "base64"),
+        });
+      } else {
+        throw new Error("Each attachment needs either a path or content");
+      }
+    }
+
+    return attachments;
+  }
+
+  // Reads every attachment of a message back so it can go into a new one
+  private async downloadAttachments(
+    messageId: string,
+    payload: gmail_v1.Schema$MessagePart | undefined
+  ) {
+    const attachments: OutgoingAttachment[] = [];
+    for (const attachment of extractMessageContent(payload).attachments) {
+      attachments.push({
+        filename: attachment.filename,
+        mimeType: attachment.mimeType,
+        content: await this.fetchAttachmentData(
+          messageId,
+          attachment.attachmentId
+        ),
+      });
+    }
+    return attachments;
+  }
+
+  private async fetchAttachmentData(messageId: string, attachmentId: string) {
+    const response = await this.gmail.users.messages.attachments.get({
+      userId: "me",
+      messageId,
+      id: attachmentId,
+    });
+    return decodeBase64Url(response.data.data || "");
+  }
+
+  private async handleGetAttachment(args: any) {
+    try {
+      const {
+        messageId,
+        attachmentId,
+        saveToDisk = !!DOWNLOAD_DIR && !POLICY.readOnly,
+      } = args;
+
+      if (saveToDisk && !DOWNLOAD_DIR) {
+        throw new Error(
+          "GOOGLE_DOWNLOAD_DIR is not set, so attachments cannot be saved to disk"
+        );
+      }
+
+      // Attachment IDs are not stable between fetches, so the filename and
+      // type come from the attachment with a matching name, or the only one,
+      // when the ID is not found. The data is always fetched by the given ID.
+      const message = await this.gmail.users.messages.get({
+        userId: "me",
+        id: messageId,
+        format: "full",
+      });
+      const { attachments } = extractMessageContent(message.data.payload);
+      const info =
+        attachments.find((a) => a.attachmentId === attachmentId) ||
+        attachments.find((a) => a.filename === args.filename) ||
+        (attachments.length === 1 ? attachments[0] : undefined);
+
+      const filename = basename(
+        args.filename || info?.filename || `attachment-${messageId}`
+      );
+      const mimeType = info?.mimeType || guessMimeType(filename);
+      const data = await this.fetchAttachmentData(messageId, attachmentId);
+
+      if (saveToDisk) {
+        const directory = resolve(DOWNLOAD_DIR!);
+        await mkdir(directory, { recursive: true });
+        const path = await resolvePathArgument(
+          await this.uniquePath(directory, filename),
+          directory,
+          "GOOGLE_DOWNLOAD_DIR"
+        );
+        await writeFile(path, data);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Attachment saved to ${path} (${mimeType}, ${data.length} bytes)`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "resource",
+            resource: {
+              uri: `gmail://message/${messageId}/attachment/${encodeURIComponent(
+                filename
+              )}`,
+              mimeType,
+              blob: data.toString("base64"),
+            },
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error fetching attachment", error);
+    }
+  }
+
+  private async uniquePath(directory: string, filename: string) {
+    const dot = filename.lastIndexOf(".");
+    const stem = dot > 0 ? filename.slice(0, dot) : filename;
+    const extension = dot > 0 ? filename.slice(dot) : "";
+
+    for (let counter = 0; ; counter++) {
+      const candidate = join(
+        directory,
+        counter === 0 ? filename : `${stem} (${counter})${extension}`
+      );
+      try {
+        await stat(candidate);
+      } catch {
+        return candidate;
+      }
+    }
+  }
+
+  private async handleModifyEmail(args: any) {
+    try {
+      const {
+        id,
+        addLabels = [],
+        removeLabels = [],
+        actions = [],
+        createMissingLabels = false,
+      } = args;
+
+      const changes = actionsToLabelChanges(actions);
+      const addLabelIds = [
+        ...changes.add,
+        ...(await this.resolveLabelIds(addLabels, createMissingLabels)),
+      ];
+      const removeLabelIds = [
+        ...changes.remove,
+        ...(await this.resolveLabelIds(removeLabels, false)),
+      ];
+      if (POLICY.hasLabelRules) {
+        POLICY.checkLabelIds(addLabelIds, await this.fetchLabels());
+      }
+
+      this.noteAudit({
+        before: { labels: await this.fetchLabelSnapshot([id]) },
+        resultIds: { messageId: id },
+      });
+
+      if (changes.trash) {
+        await this.gmail.users.messages.trash({ userId: "me", id });
+      } else if (changes.untrash) {
+        await this.gmail.users.messages.untrash({ userId: "me", id });
+      }
+
+      let labelIds: string[] | null | undefined;
+      if (addLabelIds.length || removeLabelIds.length) {
+        const response = await this.gmail.users.messages.modify({
+          userId: "me",
+          id,
+          requestBody: {
+            addLabelIds,
+            removeLabelIds,
+          },
+        });
+        labelIds = response.data.labelIds;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Email modified successfully. Updated labels for message ID: ${id}${
+              labelIds ? `. Current labels: ${labelIds.join(", ")}` : ""
+            }`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error modifying email", error);
+    }
+  }
+
+  private async handleBatchModifyEmails(args: any) {
+    try {
+      const {
+        ids,
+        query,
+        maxMessages = 5000,
+        includeSpamTrash = false,
+        addLabels = [],
+        removeLabels = [],
+        actions = [],
+        createMissingLabels = false,
+        dryRun = false,
+      } = args;
+
+      if (!ids?.length && !query) {
+        throw new Error("Either ids or query is required");
+      }
+
+      const changes = actionsToLabelChanges(actions);
+      // batchModify has no trash endpoint, but TRASH behaves as a label here.
+      if (changes.trash) changes.add.push("TRASH");
+      if (changes.untrash) changes.remove.push("TRASH");
+
+      const messageIds: string[] = ids?.length
+        ? [...new Set<string>(ids)]
+        : await this.listMessageIds(query, maxMessages, includeSpamTrash);
+
+      if (dryRun) {
+        const preview = await this.fetchMessageSummaries(
+          messageIds.slice(0, 20)
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  dryRun: true,
+                  matched: messageIds.length,
+                  addLabels: [...changes.add, ...addLabels],
+                  removeLabels: [...changes.remove, ...removeLabels],
+                  ids: messageIds,
+                  preview,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      const addLabelIds = [
+        ...changes.add,
+        ...(await this.resolveLabelIds(addLabels, createMissingLabels)),
+      ];
+      const removeLabelIds = [
+        ...changes.remove,
+        ...(await this.resolveLabelIds(removeLabels, false)),
+      ];
+      if (POLICY.hasLabelRules) {
+        POLICY.checkLabelIds(addLabelIds, await this.fetchLabels());
+      }
+      if (!addLabelIds.length && !removeLabelIds.length) {
+        throw new Error("No label changes or actions were given");
+      }
+
+      this.noteAudit({
+        before:
+          messageIds.length <= AUDIT_SNAPSHOT_LIMIT
+            ? { labels: await this.fetchLabelSnapshot(messageIds) }
+            : undefined,
+        resultIds: { messageIds, addLabelIds, removeLabelIds },
+      });
+
+      for (let i = 0; i < messageIds.length; i += 1000) {
+        const chunk = messageIds.slice(i, i + 1000);
+        await this.gmail.users.messages.batchModify({
+          userId: "me",
+          requestBody: {
+            ids: chunk,
+            addLabelIds,
+            removeLabelIds,
+          },
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                matched: messageIds.length,
+                addLabelIds,
+                removeLabelIds,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error modifying emails", error);
+    }
+  }
+
+  private async listMessageIds(
+    query: string,
+    maxMessages: number,
+    includeSpamTrash: boolean
+  ) {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.gmail.users.messages.list({
+        userId: "me",
+        q: query,
+        maxResults: Math.min(500, maxMessages - ids.length),
+        includeSpamTrash,
+        pageToken,
+      });
+      for (const message of response.data.messages || []) {
+        if (message.id) ids.push(message.id);
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken && ids.length < maxMessages);
+
+    return ids;
+  }
+
+  private async fetchLabelSnapshot(ids: string[]) {
+    const labels: Record<string, string[]> = {};
+    await mapWithConcurrency(ids, MESSAGE_FETCH_CONCURRENCY, async (id) => {
+      const response = await this.gmail.users.messages.get({
+        userId: "me",
+        id,
+        format: "minimal",
+      });
+      labels[id] = response.data.labelIds || [];
+    });
+    return labels;
+  }
+
+  private async fetchLabels() {
+    const response = await this.gmail.users.labels.list({ userId: "me" });
+    return response.data.labels || [];
+  }
+
+  private findLabel(labels: gmail_v1.Schema$Label[], idOrName: string) {
+    const lower = idOrName.toLowerCase();
+    return (
+      labels.find((label) => label.id === idOrName) ||
+      labels.find((label) => label.name?.toLowerCase() === lower)
+    );
+  }
+
+  // Accepts label IDs or display names so the model never has to know
+  // opaque IDs like Label_123.
+  private async resolveLabelIds(names: string[], createMissing: boolean) {
+    if (names.length === 0) return [];
+
+    const labels = await this.fetchLabels();
+    const ids: string[] = [];
+
+    for (const name of names) {
+      const label = this.findLabel(labels, name);
+      if (label?.id) {
+        ids.push(label.id);
+      } else if (createMissing) {
+        const created = await this.gmail.users.labels.create({
+          userId: "me",
+          requestBody: {
+            name,
+            labelListVisibility: "labelShow",
+            messageListVisibility: "show",
+          },
+        });
+        labels.push(created.data);
+        ids.push(created.data.id!);
+      } else {
+        throw new Error(
+          `Unknown label: ${name}. Use list_labels to see available labels or set createMissingLabels`
+        );
+      }
+    }
+
+    return ids;
+  }
+
+  private labelRequestBody(args: any): gmail_v1.Schema$Label {
+    const { name, textColor, backgroundColor } = args;
+    const { labelListVisibility, messageListVisibility } = args;
+
+    return {
+      name,
+      labelListVisibility,
+      messageListVisibility,
+      ...(textColor || backgroundColor
+        ? { color: { textColor, backgroundColor } }
+        : {}),
+    };
+  }
+
+  private async handleListLabels(args: any) {
+    try {
+      const includeCounts = args?.includeCounts || false;
+
+      let labels = await this.fetchLabels();
+      if (includeCounts) {
+        labels = await mapWithConcurrency(
+          labels,
+          MESSAGE_FETCH_CONCURRENCY,
+          async (label) =>
+            (
+              await this.gmail.users.labels.get({
+                userId: "me",
+                id: label.id!,
+              })
+            ).data
+        );
+      }
+
+      const result = labels
+        .map((label) => ({
+          id: label.id,
+          name: label.name,
+          type: label.type,
+          color: label.color,
+          labelListVisibility: label.labelListVisibility,
+          messageListVisibility: label.messageListVisibility,
+          ...(includeCounts
+            ? {
+                messagesTotal: label.messagesTotal,
+                messagesUnread: label.messagesUnread,
+              }
+            : {}),
+        }))
+        .sort((a, b) => (a.name || "").localeCompare(b.name || ""));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error fetching labels", error);
+    }
+  }
+
+  private async handleCreateLabel(args: any) {
+    try {
+      const response = await this.gmail.users.labels.create({
+        userId: "me",
+        requestBody: this.labelRequestBody(args),
+      });
+      this.noteAudit({ resultIds: { labelId: response.data.id } });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Label created successfully. Label ID: ${response.data.id}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error creating label", error);
+    }
+  }
+
+  private async handleUpdateLabel(args: any) {
+    try {
+      const label = this.findLabel(await this.fetchLabels(), args.label);
+      if (!label?.id) throw new Error(`Unknown label: ${args.label}`);
+      if (label.type === "system") {
+        throw new Error(`System label ${label.name} cannot be changed`);
+      }
+      this.noteAudit({
+        before: {
+          label: {
+            name: label.name,
+            color: label.color,
+            labelListVisibility: label.labelListVisibility,
+            messageListVisibility: label.messageListVisibility,
+          },
+        },
+        resultIds: { labelId: label.id },
+      });
+
+      const response = await this.gmail.users.labels.patch({
+        userId: "me",
+        id: label.id,
+        requestBody: this.labelRequestBody(args),
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Label updated successfully. Label ID: ${response.data.id}, name: ${response.data.name}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error updating label", error);
+    }
+  }
+
+  private async handleDeleteLabel(args: any) {
+    try {
+      const label = this.findLabel(await this.fetchLabels(), args.label);
+      if (!label?.id) throw new Error(`Unknown label: ${args.label}`);
+      if (label.type === "system") {
+        throw new Error(`System label ${label.name} cannot be deleted`);
+      }
+      this.noteAudit({ before: { label }, resultIds: { labelId: label.id } });
+
+      await this.gmail.users.labels.delete({ userId: "me", id: label.id });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Label deleted successfully. Label ID: ${label.id}, name: ${label.name}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error deleting label", error);
+    }
+  }
+
+  private async handleCreateEvent(args: any) {
+    try {
+      const calendarId = args?.calendarId || "primary";
+      const event = this.buildEventResource(args);
+
+      const response = await this.calendar.events.insert({
+        calendarId,
+        requestBody: event,
+        conferenceDataVersion: event.conferenceData ? 1 : undefined,
+      });
+      this.noteAudit({ resultIds: { calendarId, eventId: response.data.id } });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Event created successfully. Event ID: ${response.data.id}${
+              response.data.hangoutLink
+                ? `, Meet link: ${response.data.hangoutLink}`
+                : ""
+            }`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error creating event", error);
+    }
+  }
+
+  private buildEventResource(args: any): calendar_v3.Schema$Event {
+    const {
+      summary,
+      location,
+      description,
+      start,
+      end,
+      allDay = false,
+      timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+      attendees = [],
+      recurrence,
+      reminders,
+      visibility,
+      colorId,
+      createMeetLink = false,
+    } = args;
+
+    const event: calendar_v3.Schema$Event = {
+      summary,
+      location,
+      description,
+      attendees: attendees.map((email: string) => ({ email })),
+      visibility,
+      colorId,
+    };
+
+    if (allDay) {
+      const startDate = DateTime.fromISO(start, { zone: timeZone });
+      const lastDate = end
+        ? DateTime.fromISO(end, { zone: timeZone })
+        : startDate;
+      if (!startDate.isValid || !lastDate.isValid) {
+        throw new Error("All-day events need YYYY-MM-DD start and end dates");
+      }
+      if (lastDate < startDate) {
+        throw new Error("Event end must not be before its start");
+      }
+      // Google treats end.date as exclusive.
+      event.start = { date: startDate.toISODate() };
+      event.end = { date: lastDate.plus({ days: 1 }).toISODate() };
+    } else {
+      if (!end) throw new Error("An end time is required for timed events");
+      event.start = { dateTime: start, timeZone };
+      event.end = { dateTime: end, timeZone };
+    }
+
+    if (recurrence) {
+      event.recurrence = buildRecurrence(recurrence, { allDay, timeZone });
+    }
+
+    if (Array.isArray(reminders)) {
+      event.reminders = {
+        useDefault: false,
+        overrides: reminders.map((reminder: any) => ({
+          method: reminder.method || "popup",
+          minutes: reminder.minutes,
+        })),
+      };
+    }
+
+    if (createMeetLink) {
+      event.conferenceData = {
+        createRequest: {
+          requestId: randomUUID(),
+          conferenceSolutionKey: { type: "hangoutsMeet" },
+        },
+      };
+    }
+
+    return event;
+  }
+
+  private async handleUpdateEvent(args: any) {
+    try {
+      const {
+        eventId,
+        summary,
+        location,
+        description,
+        start,
+        end,
+        addAttendees = [],
+        removeAttendees = [],
+        sendUpdates = "none",
+        calendarId = "primary",
+      } = args;
+
+      if (args.status !== undefined) {
+        throw new Error(
+          "Changing an event's status is not allowed; this server never cancels or deletes events"
+        );
+      }
+
+      const existing = await this.calendar.events.get({
+        calendarId,
+        eventId,
+      });
+      if (existing.data.status === "cancelled") {
+        throw new Error(`Event ${eventId} is cancelled and cannot be edited`);
+      }
+
+      const patch: calendar_v3.Schema$Event = {};
+      if (summary !== undefined) patch.summary = summary;
+      if (location !== undefined) patch.location = location;
+      if (description !== undefined) patch.description = description;
+
+      const timeZone =
+        existing.data.start?.timeZone ||
+        Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const wasAllDay = !!existing.data.start?.date;
+      const { allDay = wasAllDay } = args;
+      if (allDay !== wasAllDay && (start === undefined || end === undefined)) {
+        throw new Error(
+          "Switching between an all-day and a timed event needs both start and end"
+        );
+      }
+
+      // Google keeps whichever of date and dateTime is not cleared, so the
+      // other one is always sent as null.
+      if (allDay) {
+        const day = (value: string) => {
+          const parsed = DateTime.fromISO(value, { zone: timeZone });
+          if (!parsed.isValid) {
+            throw new Error(
+              "All-day events need YYYY-MM-DD start and end dates"
+            );
+          }
+          return parsed;
+        };
+        if (start !== undefined) {
+          patch.start = {
+            date: day(start).toISODate(),
+            dateTime: null,
+            timeZone: null,
+          };
+        }
+        // Google treats end.date as exclusive.
+        if (end !== undefined) {
+          patch.end = {
+            date: day(end).plus({ days: 1 }).toISODate(),
+            dateTime: null,
+            timeZone: null,
+          };
+        }
+
+        const newStart = patch.start?.date || existing.data.start?.date;
+        const newEnd = patch.end?.date || existing.data.end?.date;
+        if (newStart && newEnd && newEnd <= newStart) {
+          throw new Error("Event end must not be before its start");
+        }
+      } else {
+        if (start !== undefined) {
+          patch.start = { date: null, dateTime: start, timeZone };
+        }
+        if (end !== undefined) {
+          patch.end = { date: null, dateTime: end, timeZone };
+        }
+
+        const newStart = start || existing.data.start?.dateTime;
+        const newEnd = end || existing.data.end?.dateTime;
+        if (newStart && newEnd && new Date(newEnd) <= new Date(newStart)) {
+          throw new Error("Event end must be after its start");
+        }
+      }
+
+      // events.patch replaces the attendee list wholesale, so merge the
+      // requested additions and removals into the current list.
+      if (addAttendees.length || removeAttendees.length) {
+        const removed = new Set(
+          removeAttendees.map((email: string) => email.toLowerCase())
+        );
+        const attendees = (existing.data.attendees || []).filter(
+          (attendee) => !removed.has((attendee.email || "").toLowerCase())
+        );
+        for (const email of addAttendees) {
+          const known = attendees.some(
+            (attendee) =>
+              (attendee.email || "").toLowerCase() === email.toLowerCase()
+          );
+          if (!known) attendees.push({ email });
+        }
+        patch.attendees = attendees;
+      }
+
+      if (Object.keys(patch).length === 0) {
+        throw new Error("No changes were given");
+      }
+      this.noteAudit({
+        before: {
+          event: Object.fromEntries(
+            Object.keys(patch).map((key) => [
+              key,
+              // Undo may switch the event back between all-day and timed
+              ["start", "end"].includes(key)
+                ? {
+                    date: null,
+                    dateTime: null,
+                    timeZone: null,
+                    ...existing.data[key as "start" | "end"],
+                  }
+                : existing.data[key as keyof calendar_v3.Schema$Event] ?? null,
+            ])
+          ),
+        },
+        resultIds: { calendarId, eventId },
+      });
+
+      const response = await this.calendar.events.patch({
+        calendarId,
+        eventId,
+        sendUpdates,
+        requestBody: patch,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Event updated successfully. Event ID: ${response.data.id}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error updating event", error);
+    }
+  }
+
+  private async handleExportEventsIcs(args: any) {
+    try {
+      const calendarId = args?.calendarId || "primary";
+      const timeMin = args?.timeMin || new Date().toISOString();
+      const timeMax = args?.timeMax;
+      const expandRecurring = args?.expandRecurring || false;
+
+      const calendarInfo = await this.calendar.calendars.get({ calendarId });
+      const events: calendar_v3.Schema$Event[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await this.calendar.events.list({
+          calendarId,
+          timeMin,
+          timeMax,
+          singleEvents: expandRecurring,
+          maxResults: 2500,
+          pageToken,
+        });
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      // Expanded occurrences share the series UID, so give each its own.
+      if (expandRecurring) {
+        for (const event of events) {
+          if (event.recurringEventId) {
+            event.iCalUID = `${event.id}@google.com`;
+            event.originalStartTime = undefined;
+          }
+        }
+      }
+
+      const ics = buildVCalendar(events, {
+        calendarName: calendarInfo.data.summary || calendarId,
+        timeZone:
+          calendarInfo.data.timeZone ||
+          Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeMin,
+        timeMax,
+      });
+      const exported = events.filter((event) => event.status !== "cancelled");
+
+      if (args?.outputPath) {
+        const outputPath = await this.localPath(
+          args.outputPath,
+          ICS_DIR,
+          "GOOGLE_ICS_DIR"
+        );
+        await writeFile(outputPath, ics, "utf-8");
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported ${exported.length} events to ${outputPath}`,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Exported ${exported.length} events from ${calendarId}`,
+          },
+          {
+            type: "resource",
+            resource: {
+              uri: `calendar://${encodeURIComponent(calendarId)}/export.ics`,
+              mimeType: "text/calendar",
+              text: ics,
+            },
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error exporting events", error);
+    }
+  }
+
+  private async handleImportIcs(args: any) {
+    try {
+      const {
+        path,
+        calendarId = "primary",
+        mode = "import",
+        timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+        sendUpdates = "none",
+        dryRun = false,
+      } = args;
+
+      if (!path && !args.ics) throw new Error("Either path or ics is required");
+      const text = path
+        ? await readFile(
+            await this.localPath(path, ICS_DIR, "GOOGLE_ICS_DIR"),
+            "utf-8"
+          )
+        : args.ics;
+      const root = parseICalendar(text);
+      const fileZones = fileTimeZones(root);
+      const vevents = findComponents(root, "VEVENT");
+
+      // An event that cannot be converted, for example because of an unknown
+      // time zone, is reported as failed instead of stopping the import.
+      const converted = vevents.map((vevent) => {
+        try {
+          return {
+            vevent,
+            event: vEventToGoogleEvent(vevent, timeZone, fileZones),
+          };
+        } catch (error: any) {
+          return { vevent, error: error.message as string };
+        }
+      });
+
+      // Inserted events invite their attendees, so every event is checked
+      // before the first one is created.
+      if (mode === "insert" && POLICY.hasRecipientRules) {
+        for (const { event } of converted) {
+          POLICY.checkRecipients(
+            (event?.attendees || []).map((attendee) => attendee.email || "")
+          );
+        }
+      }
+
+      const results: Array<{
+        uid?: string;
+        summary?: string;
+        status: string;
+        eventId?: string;
+      }> = [];
+      const seenUids = new Set<string>();
+
+      for (const { vevent, event, error } of converted) {
+        if (!event) {
+          const summary = getProperty(vevent, "SUMMARY");
+          results.push({
+            uid: getProperty(vevent, "UID")?.value,
+            summary: summary ? unescapeText(summary.value) : undefined,
+            status: `failed: ${error}`,
+          });
+          continue;
+        }
+        const summary = event.summary || undefined;
+        const skip = (status: string) =>
+          results.push({ uid: event.iCalUID || undefined, summary, status });
+
+        if (getProperty(vevent, "RECURRENCE-ID")) {
+          skip("skipped: changed occurrence of a recurring event");
+          continue;
+        }
+        if (
+          getProperty(vevent, "STATUS")?.value.toUpperCase() === "CANCELLED"
+        ) {
+          skip("skipped: cancelled in the file");
+          continue;
+        }
+
+        if (!event.iCalUID) {
+          event.iCalUID = `${randomUUID()}@google-workspace-server`;
+        } else {
+          if (seenUids.has(event.iCalUID)) {
+            skip("skipped: duplicate UID in the file");
+            continue;
+          }
+          seenUids.add(event.iCalUID);
+
+          const match = await this.findEventByICalUID(
+            calendarId,
+            event.iCalUID
+          );
+          if (match) {
+            results.push({
+              uid: event.iCalUID,
+              summary,
+              status: "skipped: already in calendar",
+              eventId: match.id || undefined,
+            });
+            continue;
+          }
+        }
+
+        if (dryRun) {
+          skip(`would ${mode}`);
+          continue;
+        }
+
+        if (!event.recurrence?.length) delete event.recurrence;
+        let response;
+        if (mode === "insert") {
+          delete event.organizer;
+          response = await this.calendar.events.insert({
+            calendarId,
+            sendUpdates,
+            requestBody: event,
+          });
+        } else {
+          response = await this.calendar.events.import({
+            calendarId,
+            requestBody: event,
+          });
+        }
+        results.push({
+          uid: event.iCalUID,
+          summary,
+          status: mode === "insert" ? "inserted" : "imported",
+          eventId: response.data.id || undefined,
+        });
+      }
+
+      this.noteAudit({
+        resultIds: {
+          calendarId,
+          eventIds: results.map((r) => r.eventId).filter(Boolean),
+        },
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                total: vevents.length,
+                created: results.filter((r) =>
+                  ["inserted", "imported"].includes(r.status)
+                ).length,
+                events: results,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error importing iCalendar data", error);
+    }
+  }
+
+  private async handleRespondToEvent(args: any) {
+    try {
+      const {
+        calendarId = "primary",
+        eventId,
+        iCalUID,
+        messageId,
+        response,
+        comment,
+        sendUpdates = "all",
+      } = args;
+
+      if (!["accepted", "declined", "tentative"].includes(response)) {
+        throw new Error("response must be accepted, declined or tentative");
+      }
+
+      const eventIds: string[] = [];
+      if (eventId) {
+        eventIds.push(eventId);
+      } else if (iCalUID) {
+        const event = await this.findEventByICalUID(calendarId, iCalUID);
+        if (!event?.id) throw new Error(`No event found with UID ${iCalUID}`);
+        eventIds.push(event.id);
+      } else if (messageId) {
+        const message = await this.gmail.users.messages.get({
+          userId: "me",
+          id: messageId,
+          format: "full",
+        });
+        const { invitations, errors } = await this.readInvitations(
+          message.data,
+          calendarId
+        );
+        for (const invitation of invitations) {
+          if (invitation.eventId && !eventIds.includes(invitation.eventId)) {
+            eventIds.push(invitation.eventId);
+          }
+        }
+        if (!eventIds.length) {
+          throw new Error(
+            `Email ${messageId} has no invitation matching an event on ${calendarId}` +
+              (errors.length ? ` (${errors.join("; ")})` : "")
+          );
+        }
+      } else {
+        throw new Error("One of eventId, iCalUID or messageId is required");
+      }
+
+      const results: string[] = [];
+      const previousResponses: {
+        eventId: string;
+        responseStatus?: string | null;
+        comment?: string | null;
+      }[] = [];
+      this.noteAudit({
+        before: { responses: previousResponses },
+        resultIds: { calendarId, eventIds },
+      });
+      for (const id of eventIds) {
+        const existing = await this.calendar.events.get({
+          calendarId,
+          eventId: id,
+        });
+        const attendees = existing.data.attendees || [];
+        const self = attendees.find((attendee) => attendee.self);
+        if (!self) {
+          throw new Error(`You are not an attendee of event ${id}`);
+        }
+        previousResponses.push({
+          eventId: id,
+          responseStatus: self.responseStatus,
+          comment: self.comment,
+        });
+        self.responseStatus = response;
+        if (comment !== undefined) self.comment = comment;
+
+        // Only the attendee list changes; status is never touched here.
+        await this.calendar.events.patch({
+          calendarId,
+          eventId: id,
+          sendUpdates,
+          requestBody: { attendees },
+        });
+        results.push(`${existing.data.summary || id} (${id})`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Responded "${response}" to: ${results.join(", ")}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error responding to event", error);
+    }
+  }
+
+  private async handleListAccounts() {
+    try {
+      const accounts = await Promise.all(
+        [...this.accounts.values()].map(async (account) => {
+          try {
+            return {
+              name: account.name,
+              email: await this.accountEmail(account.name),
+            };
+          } catch (error: any) {
+            const { message, code, hint } = classifyError(error);
+            return { name: account.name, error: message, code, hint };
+          }
+        })
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              accounts.map((account) => ({
+                ...account,
+                default: account.name === ACCOUNT_SETTINGS.defaultAccount,
+              })),
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error listing accounts", error);
+    }
+  }
+
+  private async handleListCalendars(args: any) {
+    try {
+      const calendars: calendar_v3.Schema$CalendarListEntry[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await this.calendar.calendarList.list({ pageToken });
+        calendars.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      const result = calendars.map((entry) => ({
+        id: entry.id,
+        summary: entry.summaryOverride || entry.summary,
+        accessRole: entry.accessRole,
+        timeZone: entry.timeZone,
+        primary: entry.primary || false,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      return errorResult("Error fetching calendars", error);
+    }
+  }
+
+  private async handleListEvents(args: any) {
+    try {
+      const maxResults = args?.maxResults || 10;
+      const requestedCalendarIds: string[] | undefined = args?.calendarIds
+        ?.length
+        ? args.calendarIds
+        : args?.calendarId
+        ? [args.calendarId]
+        : undefined;
+
+      // The cursor keeps, per calendar, the next Google page and the IDs of
+      // fetched events that did not fit into the merged page, so merged
+      // pages never skip or repeat an event.
+      let cursor: EventsCursor;
+      if (args?.pageToken) {
+        cursor = JSON.parse(decodeBase64Url(args.pageToken).toString("utf-8"));
+        if (
+          (args.timeMin && args.timeMin !== cursor.timeMin) ||
+          (args.timeMax && args.timeMax !== cursor.timeMax) ||
+          (requestedCalendarIds &&
+            requestedCalendarIds.join(",") !== cursor.calendarIds.join(","))
+        ) {
+          throw new Error(
+            "pageToken belongs to a list_events call with other timeMin, timeMax or calendars. Repeat that call's arguments or start again without pageToken"
+          );
+        }
+      } else {
+        const calendarIds = requestedCalendarIds || ["primary"];
+        cursor = {
+          timeMin: args?.timeMin || new Date().toISOString(),
+          timeMax: args?.timeMax,
+          calendarIds,
+          positions: Object.fromEntries(calendarIds.map((id) => [id, {}])),
+        };
+      }
+      const { timeMin, timeMax } = cursor;
+
+      const pages = await Promise.all(
+        Object.entries(cursor.positions).map(async ([calendarId, position]) => {
+          const buffered = await mapWithConcurrency(
+            position.remaining || [],
+            MESSAGE_FETCH_CONCURRENCY,
+            (eventId) => this.fetchListedEvent(calendarId, eventId)
+          );
+          const items = buffered.filter(
+            (event): event is calendar_v3.Schema$Event =>
+              !!event && event.status !== "cancelled"
+          );
+          let { pageToken, timeZone = "UTC" } = position;
+
+          // Later pages only hold later events, so they are needed only
+          // while the buffered events cannot fill this page on their own.
+          while (items.length < maxResults && pageToken !== null) {
+            const response = await this.calendar.events.list({
+              calendarId,
+              timeMin,
+              timeMax,
+              maxResults,
+              pageToken,
+              singleEvents: true,
+              orderBy: "startTime",
+            });
+            items.push(...(response.data.items || []));
+            pageToken = response.data.nextPageToken || null;
+            timeZone = response.data.timeZone || timeZone;
+          }
+          return { calendarId, items, pageToken, timeZone };
+        })
+      );
+
+      const merged = pages
+        .flatMap((page) =>
+          page.items.map((event) => ({
+            calendarId: page.calendarId,
+            event,
+            startTime: eventStartTime(event, page.timeZone),
+          }))
+        )
+        .sort((a, b) => a.startTime - b.startTime)
+        .slice(0, maxResults);
+
+      const nextCursor: EventsCursor = { ...cursor, positions: {} };
+      let hasMore = false;
+      for (const page of pages) {
+        const returned = new Set(
+          merged
+            .filter((entry) => entry.calendarId === page.calendarId)
+            .map((entry) => entry.event.id)
+        );
+        const remaining = page.items
+          .map((event) => event.id!)
+          .filter((id) => !returned.has(id));
+        if (remaining.length || page.pageToken) {
+          nextCursor.positions[page.calendarId] = {
+            pageToken: page.pageToken,
+            remaining,
+            timeZone: page.timeZone,
+          };
+          hasMore = true;
+        }
+      }
+
+      const events = merged.map(({ calendarId, event }) => ({
+        id: event.id,
+        calendarId,
+        summary: event.summary,
+        start: event.start,
+        end: event.end,
+        location: event.location,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                events,
+                nextPageToken: hasMore
+                  ? encodeBase64Url(JSON.stringify(nextCursor))
+                  : undefined,
+              },
+              null,
+              2
+            ),
           },
         ],
       };
     } catch (error: any) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error sending email: ${error.message}`,
-          },
-        ],
-        isError: true,
-      };
+      return errorResult("Error fetching calendar events", error);
     }
   }
 
-  private async handleModifyEmail(args: any) {
+  // An event left over from an earlier page may have been deleted since
+  private async fetchListedEvent(calendarId: string, eventId: string) {
     try {
-      const { id, addLabels = [], removeLabels = [] } = args;
+      const response = await this.calendar.events.get({ calendarId, eventId });
+      return response.data;
+    } catch (error: any) {
+      const status = Number(error?.code ?? error?.response?.status);
+      if (status === 404 || status === 410) return undefined;
+      throw error;
+    }
+  }
 
-      const response = await this.gmail.users.messages.modify({
-        userId: "me",
-        id,
-        requestBody: {
-          addLabelIds: addLabels,
-          removeLabelIds: removeLabels,
-        },
-      });
+  private async handleMeetingSuggestion(args: any) {
+    try {
+      const { suggestions, timezone } = await this.suggestMeetingSlots(args);
 
       return {
         content: [
           {
             type: "text",
-            text: `Email modified successfully. Updated labels for message ID: ${response.data.id}`,
+            text: JSON.stringify(
+              suggestions.map((slot) => this.formatSlot(slot, timezone)),
+              null,
+              2
+            ),
           },
         ],
       };
     } catch (error: any) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error modifying email: ${error.message}`,
-          },
-        ],
-        isError: true,
-      };
+      return errorResult("Error suggesting meetings", error);
     }
   }
 
-  private async handleCreateEvent(args: any) {
+  private async handleBookMeeting(args: any) {
     try {
       const {
         summary,
-        location,
         description,
-        start,
-        end,
+        location,
         attendees = [],
+        calendarId = "primary",
+        createMeetLink = false,
+        sendUpdates = "all",
       } = args;
 
-      const event = {
+      const { suggestions, participants, options, timezone } =
+        await this.suggestMeetingSlots(args);
+
+      let slot: { start: DateTime; end: DateTime } | undefined;
+      if (args.slotStart) {
+        const start = DateTime.fromISO(args.slotStart, { zone: timezone });
+        if (!start.isValid)
+          throw new Error("slotStart is not a valid ISO time");
+        slot = {
+          start,
+          end: start.plus({ minutes: options.meetingLengthMinutes }),
+        };
+      } else {
+        slot = suggestions[0];
+      }
+      if (!slot) {
+        throw new Error("No free slot was found for all required participants");
+      }
+
+      // The calendars may have changed since the suggestions were computed,
+      // so check the chosen slot once more right before inserting. A given
+      // slotStart may lie outside the suggestion window, so the holidays
+      // around the slot itself are loaded for the check.
+      await this.loadHolidays(
+        participants,
+        slot.start.minus({ days: 1 }),
+        slot.end.plus({ days: 1 })
+      );
+      const holiday = participants
+        .filter((p) => !p.optional)
+        .map((p) => ({
+          calendarId: p.calendarId,
+          name: p.holidays?.get(slot!.start.setZone(p.timeZone).toISODate()!),
+        }))
+        .find((entry) => entry.name);
+      const freshBusy = await this.queryBusy(
+        participants,
+        slot.start.minus({ minutes: options.bufferBeforeMinutes + 1 }),
+        slot.end.plus({ minutes: options.bufferAfterMinutes + 1 }),
+        timezone
+      );
+      const available =
+        !holiday &&
+        participants
+          .filter((p) => !p.optional)
+          .every(
+            (p) =>
+              isWithinWorkingHours(p, slot!.start, slot!.end) &&
+              isFree(
+                freshBusy[busyKey(p)] || [],
+                slot!.start,
+                slot!.end,
+                options.bufferBeforeMinutes,
+                options.bufferAfterMinutes
+              )
+          );
+
+      if (!available) {
+        const { suggestions: alternatives } = await this.suggestMeetingSlots(
+          args
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  booked: false,
+                  reason: holiday
+                    ? `The slot starting ${slot.start
+                        .setZone(timezone)
+                        .toISO()} falls on ${holiday.name} for ${
+                        holiday.calendarId
+                      }`
+                    : `The slot starting ${slot.start
+                        .setZone(timezone)
+                        .toISO()} is no longer free for every required participant`,
+                  alternatives: alternatives
+                    .filter((s) => !s.start.equals(slot!.start))
+                    .slice(0, 3)
+                    .map((s) => this.formatSlot(s, timezone)),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const invitees = new Map<string, boolean>();
+      for (const participant of participants) {
+        const email = participant.calendarId.includes("@")
+          ? participant.calendarId
+          : participant.account && participant.calendarId === "primary"
+          ? await this.accountEmail(participant.account)
+          : undefined;
+        if (email) invitees.set(email, participant.optional);
+      }
+      for (const email of attendees) invitees.set(email, false);
+
+      const event = this.buildEventResource({
         summary,
-        location,
         description,
-        start: {
-          dateTime: start,
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        },
-        end: {
-          dateTime: end,
-          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-        },
-        attendees: attendees.map((email: string) => ({ email })),
-      };
+        location,
+        start: slot.start.setZone(timezone).toISO(),
+        end: slot.end.setZone(timezone).toISO(),
+        timeZone: timezone,
+        createMeetLink,
+      });
+      event.attendees = [...invitees].map(([email, optional]) => ({
+        email,
+        ...(optional ? { optional } : {}),
+      }));
 
       const response = await this.calendar.events.insert({
-        calendarId: "primary",
+        calendarId,
         requestBody: event,
+        sendUpdates,
+        conferenceDataVersion: event.conferenceData ? 1 : undefined,
       });
+      this.noteAudit({ resultIds: { calendarId, eventId: response.data.id } });
 
       return {
         content: [
           {
             type: "text",
-            text: `Event created successfully. Event ID: ${response.data.id}`,
+            text: JSON.stringify(
+              {
+                booked: true,
+                eventId: response.data.id,
+                start: slot.start.setZone(timezone).toISO(),
+                end: slot.end.setZone(timezone).toISO(),
+                htmlLink: response.data.htmlLink,
+                meetLink: response.data.hangoutLink || undefined,
+              },
+              null,
+              2
+            ),
           },
         ],
       };
     } catch (error: any) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating event: ${error.message}`,
-          },
-        ],
-        isError: true,
-      };
+      return errorResult("Error booking meeting", error);
     }
   }
 
-  private async handleListEvents(args: any) {
+  private buildParticipants(args: any): Participant[] {
+    const defaults = {
+      timeZone: args?.timezone || "America/Sao_Paulo",
+      workingHoursStart: args?.workingHoursStart ?? 9,
+      workingHoursEnd: args?.workingHoursEnd ?? 17,
+      workingDays: (args?.workingDays || [1, 2, 3, 4, 5]).map(parseWeekday),
+      holidayRegion: args?.holidayRegion,
+      holidayFile: args?.holidayFile,
+    };
+
+    const participants: Participant[] = (args?.participants || []).map(
+      (participant: any) => ({
+        calendarId: participant.calendarId,
+        account: participant.account,
+        timeZone: participant.timezone || defaults.timeZone,
+        workingHoursStart:
+          participant.workingHoursStart ?? defaults.workingHoursStart,
+        workingHoursEnd:
+          participant.workingHoursEnd ?? defaults.workingHoursEnd,
+        workingDays: participant.workingDays
+          ? participant.workingDays.map(parseWeekday)
+          : defaults.workingDays,
+        optional: participant.optional || false,
+        holidayRegion: participant.holidayRegion || defaults.holidayRegion,
+        holidayFile: participant.holidayFile || defaults.holidayFile,
+      })
+    );
+
+    const calendarIds: string[] =
+      args?.calendarIds || (participants.length ? [] : ["primary"]);
+    for (const calendarId of calendarIds) {
+      if (
+        !participants.some((p) => !p.account && p.calendarId === calendarId)
+      ) {
+        participants.push({ calendarId, optional: false, ...defaults });
+      }
+    }
+
+    for (const participant of participants) {
+      if (participant.account) this.getAccount(participant.account);
+      if (!DateTime.local().setZone(participant.timeZone).isValid) {
+        throw new Error(`Invalid timezone: ${participant.timeZone}`);
+      }
+    }
+
+    return participants;
+  }
+
+  // Fills each participant's holiday map for every year between from and to.
+  private async loadHolidays(
+    participants: Participant[],
+    from: DateTime,
+    to: DateTime
+  ) {
+    const files = new Map<string, Holiday[]>();
+
+    for (const participant of participants) {
+      const holidays = new Map<string, string>();
+
+      if (participant.holidayRegion) {
+        for (let year = from.year; year <= to.year; year++) {
+          for (const holiday of holidaysForRegion(
+            participant.holidayRegion,
+            year
+          )) {
+            holidays.set(holiday.date, holiday.name);
+          }
+        }
+      }
+
+      if (participant.holidayFile) {
+        if (!files.has(participant.holidayFile)) {
+          files.set(
+            participant.holidayFile,
+            parseIcsHolidays(
+              await readFile(
+                await this.localPath(
+                  participant.holidayFile,
+                  ICS_DIR,
+                  "GOOGLE_ICS_DIR"
+                ),
+                "utf-8"
+              )
+            )
+          );
+        }
+        for (const holiday of files.get(participant.holidayFile)!) {
+          holidays.set(holiday.date, holiday.name);
+        }
+      }
+
+      participant.holidays = holidays;
+    }
+  }
+
+  private async handleListHolidays(args: any) {
     try {
-      const maxResults = args?.maxResults || 10;
-      const timeMin = args?.timeMin || new Date().toISOString();
-      const timeMax = args?.timeMax;
+      const participants = this.buildParticipants(args);
+      const start = args?.startDate
+        ? DateTime.fromISO(args.startDate)
+        : DateTime.now();
+      const end = start.plus({ days: args?.days || 365 });
+      const first = start.toISODate()!;
+      const last = end.toISODate()!;
 
-      const response = await this.calendar.events.list({
-        calendarId: "primary",
-        timeMin,
-        timeMax,
-        maxResults,
-        singleEvents: true,
-        orderBy: "startTime",
-      });
+      await this.loadHolidays(participants, start, end);
 
-      const events = response.data.items?.map((event) => ({
-        id: event.id,
-        summary: event.summary,
-        start: event.start,
-        end: event.end,
-        location: event.location,
+      const result = participants.map((participant) => ({
+        calendarId: participant.calendarId,
+        holidayRegion: participant.holidayRegion,
+        holidayFile: participant.holidayFile,
+        holidays: [...participant.holidays!]
+          .filter(([date]) => date >= first && date <= last)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([date, name]) => ({ date, name })),
       }));
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(events, null, 2),
+            text: JSON.stringify(result, null, 2),
           },
         ],
       };
     } catch (error: any) {
+      return errorResult("Error listing holidays", error);
+    }
+  }
+
+  private async handleGetChanges(args: any) {
+    try {
+      const {
+        sources = ["gmail", "calendar"],
+        calendarIds = ["primary"],
+        maxResults = 100,
+        reset = false,
+      } = args || {};
+
+      const stateFile = await loadSyncState(SYNC_STATE_FILE);
+      const { name: account } =
+        this.accountScope.getStore() || this.getAccount();
+      const state = (stateFile.accounts[account] ||= { calendars: {} });
+      const result: Record<string, any> = {};
+
+      if (sources.includes("gmail")) {
+        if (reset) delete state.gmail;
+        result.gmail = await this.syncGmail(state, maxResults);
+      }
+      if (sources.includes("calendar")) {
+        result.calendars = {};
+        for (const calendarId of calendarIds) {
+          if (reset) delete state.calendars[calendarId];
+          result.calendars[calendarId] = await this.syncCalendar(
+            state,
+            calendarId,
+            maxResults
+          );
+        }
+      }
+
+      await saveSyncState(SYNC_STATE_FILE, stateFile);
+
       return {
         content: [
           {
             type: "text",
-            text: `Error fetching calendar events: ${error.message}`,
+            text: JSON.stringify(result, null, 2),
           },
         ],
-        isError: true,
       };
+    } catch (error: any) {
+      return errorResult("Error getting changes", error);
     }
   }
 
-  private async handleMeetingSuggestion(args: any) {
-    try {
-      const meetingLength = args?.meetingLengthMinutes || 60;
-      const workStartHour = args?.workingHoursStart || 9;
-      const workEndHour = args?.workingHoursEnd || 17;
-      const timezone = args?.timezone || "America/Sao_Paulo";
-      const slotsPerDay = args?.slotsPerDay || 1;
-      const daysToSearch = args?.daysToSearch || 3;
-      const maxDaysToLookAhead = args?.maxDaysToLookAhead || 30; // New parameter with default
-      const bankHolidays = args?.bankHolidays || [];
-      const calendarIds = args?.calendarIds || ["primary"];
-
-      // Corrected timezone-aware logic using Luxon
-      const suggestions: any[] = [];
-      let daysWithSlotsFound = 0; // Track days with slots
-
-      let startDate;
-      if (args?.startDate) {
-        startDate = DateTime.fromISO(args.startDate, {
-          zone: timezone,
-        }).startOf("day");
-      } else {
-        // Default to tomorrow in the specified timezone
-        startDate = DateTime.now()
-          .setZone(timezone)
-          .plus({ days: 1 })
-          .startOf("day");
-      }
+  private async syncGmail(state: SyncState, maxResults: number) {
+    const since = state.gmail?.historyId;
+    let reason = "No checkpoint stored yet";
 
-      const endDate = startDate.plus({ days: maxDaysToLookAhead }).endOf("day");
+    if (since) {
+      try {
+        const added = new Set<string>();
+        const deleted = new Set<string>();
+        const labelChanges = new Map<
+          string,
+          { added: Set<string>; removed: Set<string> }
+        >();
+        const labelChangesFor = (id: string) => {
+          if (!labelChanges.has(id)) {
+            labelChanges.set(id, { added: new Set(), removed: new Set() });
+          }
+          return labelChanges.get(id)!;
+        };
 
-      const busyResponse = await this.calendar.freebusy.query({
-        requestBody: {
-          timeMin: startDate.toISO(),
-          timeMax: endDate.toISO(),
-          timeZone: timezone,
-          items: calendarIds.map((id: string) => ({ id })),
-        },
-      });
+        let historyId = since;
+        let pageToken: string | undefined;
+        do {
+          const response = await this.gmail.users.history.list({
+            userId: "me",
+            startHistoryId: since,
+            maxResults: 500,
+            pageToken,
+          });
 
-      console.log(
-        "##########################################################################\n"
-      );
-      console.log(
-        "##########################################################################\n"
-      );
-      console.log(
-        "##########################################################################\n"
-      );
-      console.log(
-        "Freebusy Response:",
-        JSON.stringify(busyResponse.data, null, 2)
-      );
+          for (const record of response.data.history || []) {
+            for (const { message } of record.messagesAdded || []) {
+              if (message?.id) added.add(message.id);
+            }
+            for (const { message } of record.messagesDeleted || []) {
+              if (!message?.id) continue;
+              deleted.add(message.id);
+              added.delete(message.id);
+            }
+            // A label added and removed again within the window cancels out
+            for (const change of record.labelsAdded || []) {
+              if (!change.message?.id) continue;
+              const labels = labelChangesFor(change.message.id);
+              for (const label of change.labelIds || []) {
+                if (!labels.removed.delete(label)) labels.added.add(label);
+              }
+            }
+            for (const change of record.labelsRemoved || []) {
+              if (!change.message?.id) continue;
+              const labels = labelChangesFor(change.message.id);
+              for (const label of change.labelIds || []) {
+                if (!labels.added.delete(label)) labels.removed.add(label);
+              }
+            }
+          }
 
-      const busySlots = calendarIds
-        .flatMap((id: string) => busyResponse.data.calendars?.[id]?.busy || [])
-        .filter(
-          (slot: {
-            start?: string;
-            end?: string;
-          }): slot is { start: string; end: string } =>
-            !!slot.start && !!slot.end
-        );
-
-      let dayPointer = startDate; // Luxon DateTime
-      while (daysWithSlotsFound < daysToSearch && dayPointer < endDate) {
-        const dayOfWeek = dayPointer.weekday;
-        const formattedDate = dayPointer.toISODate();
-        if (dayOfWeek < 6 && !bankHolidays.includes(formattedDate)) {
-          // Ensure dayPointer is a DateTime object in your timezone
-
-          let dayStart = dayPointer.set({
-            hour: workStartHour,
-            minute: 0,
-            second: 0,
-            millisecond: 0,
-          });
-          let dayEnd = dayPointer.set({
-            hour: workEndHour,
-            minute: 0,
-            second: 0,
-            millisecond: 0,
-          });
+          historyId = response.data.historyId || historyId;
+          pageToken = response.data.nextPageToken || undefined;
+        } while (pageToken);
 
-          // Now explicitly pass native Dates to your findFreeSlots
-          const freeSlots = this.findFreeSlots(
-            busySlots,
-            dayStart.toJSDate(),
-            dayEnd.toJSDate(),
-            meetingLength
-          );
+        const addedIds = [...added];
+        const messagesAdded = await this.fetchMessageSummaries(
+          addedIds.slice(0, maxResults)
+        );
 
-          console.log(
-            "###### Busy slots received####################################################################\n"
-          );
-          console.log("Busy slots received:", busySlots);
-          console.log(
-            "###### FREE slots received####################################################################\n"
-          );
-          console.log("Free slots calculated:", freeSlots);
-
-          // Collect up to `slotsPerDay` slots for this day
-          let slotsAddedToday = 0;
-          for (const slot of freeSlots) {
-            if (slotsAddedToday >= slotsPerDay) break;
-            suggestions.push({
-              start: DateTime.fromJSDate(slot.start).setZone(timezone).toISO(),
-              end: DateTime.fromJSDate(slot.end).setZone(timezone).toISO(),
-            });
-            slotsAddedToday++;
-          }
+        state.gmail = { historyId, updatedAt: new Date().toISOString() };
 
-          daysWithSlotsFound++; // counts this day as processed
-        }
+        return {
+          fullResync: false,
+          sinceHistoryId: since,
+          historyId,
+          messagesAdded,
+          messagesDeleted: [...deleted],
+          labelChanges: [...labelChanges]
+            .filter(
+              ([id, labels]) =>
+                !deleted.has(id) && (labels.added.size || labels.removed.size)
+            )
+            .map(([id, labels]) => ({
+              id,
+              labelsAdded: [...labels.added],
+              labelsRemoved: [...labels.removed],
+            })),
+          truncated: addedIds.length > maxResults,
+        };
+      } catch (error: any) {
+        if (!isCheckpointExpired(error)) throw error;
+        reason = `History ID ${since} has expired`;
+      }
+    }
+
+    // Take the checkpoint before listing so nothing arriving in between is
+    // missed by the next call.
+    const profile = await this.gmail.users.getProfile({ userId: "me" });
+    const ids = await this.listMessageIds("", maxResults, false);
+    const messages = await this.fetchMessageSummaries(ids);
+
+    state.gmail = {
+      historyId: profile.data.historyId!,
+      updatedAt: new Date().toISOString(),
+    };
+
+    return {
+      fullResync: true,
+      reason,
+      historyId: profile.data.historyId,
+      messages,
+    };
+  }
+
+  private async syncCalendar(
+    state: SyncState,
+    calendarId: string,
+    maxResults: number
+  ) {
+    const since = state.calendars[calendarId]?.syncToken;
+    let reason = "No checkpoint stored yet";
+
+    if (since) {
+      try {
+        const { events, nextSyncToken } = await this.listEventChanges(
+          calendarId,
+          since
+        );
+        state.calendars[calendarId] = {
+          syncToken: nextSyncToken,
+          updatedAt: new Date().toISOString(),
+        };
 
-        dayPointer = dayPointer.plus({ days: 1 });
+        const changed = events.filter((event) => event.status !== "cancelled");
+        return {
+          fullResync: false,
+          changed: changed.slice(0, maxResults).map(summarizeEventChange),
+          cancelled: events
+            .filter((event) => event.status === "cancelled")
+            .map((event) => event.id),
+          truncated: changed.length > maxResults,
+        };
+      } catch (error: any) {
+        if (!isCheckpointExpired(error)) throw error;
+        reason = "Sync token has expired";
       }
+    }
+
+    const { events, nextSyncToken } = await this.listEventChanges(calendarId);
+    state.calendars[calendarId] = {
+      syncToken: nextSyncToken,
+      updatedAt: new Date().toISOString(),
+    };
+
+    return {
+      fullResync: true,
+      reason,
+      totalEvents: events.length,
+      events: events.slice(0, maxResults).map(summarizeEventChange),
+      truncated: events.length > maxResults,
+    };
+  }
+
+  // Pages through events.list until Google hands out the next sync token.
+  // Without a sync token this is the full listing the token is based on.
+  private async listEventChanges(calendarId: string, syncToken?: string) {
+    const events: calendar_v3.Schema$Event[] = [];
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    do {
+      const response = await this.calendar.events.list({
+        calendarId,
+        syncToken,
+        pageToken,
+        maxResults: 2500,
+      });
+      events.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken || undefined;
+      nextSyncToken = response.data.nextSyncToken || undefined;
+    } while (pageToken);
+
+    if (!nextSyncToken) {
+      throw new Error(`Calendar ${calendarId} did not return a sync token`);
+    }
+    return { events, nextSyncToken };
+  }
+
+  private async handleListAuditLog(args: any) {
+    try {
+      const { limit = 20, tool, since } = args || {};
+      const { name: account } =
+        this.accountScope.getStore() || this.getAccount();
+      const entries = await readAuditLog(AUDIT_LOG);
+      const undone = undoneEntryIds(entries);
+
+      const matching = entries
+        .filter((entry) => entry.account === account)
+        .filter((entry) => !tool || entry.tool === tool)
+        .filter((entry) => !since || entry.timestamp >= since)
+        .reverse()
+        .slice(0, limit)
+        .map((entry) => ({
+          ...entry,
+          undone: undone.has(entry.id),
+          reversible: isReversible(entry) && !undone.has(entry.id),
+        }));
+
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(suggestions, null, 2),
+            text: JSON.stringify(matching, null, 2),
           },
         ],
       };
     } catch (error: any) {
+      return errorResult("Error reading audit log", error);
+    }
+  }
+
+  private async handleUndoAction(args: any) {
+    try {
+      const { auditId, sendUpdates = "none" } = args;
+
+      const entries = await readAuditLog(AUDIT_LOG);
+      const entry = entries.find((candidate) => candidate.id === auditId);
+      if (!entry) throw new Error(`No audit entry with ID ${auditId}`);
+      if (entry.isError) {
+        throw new Error(`Entry ${auditId} recorded a failed call`);
+      }
+      if (undoneEntryIds(entries).has(auditId)) {
+        throw new Error(`Entry ${auditId} has already been undone`);
+      }
+      if (!REVERSIBLE_TOOLS.includes(entry.tool)) {
+        throw new Error(
+          `${
+            entry.tool
+          } cannot be undone. Reversible tools: ${REVERSIBLE_TOOLS.join(", ")}`
+        );
+      }
+      if (!isReversible(entry)) {
+        throw new Error(
+          `Entry ${auditId} changed more than ${AUDIT_SNAPSHOT_LIMIT} messages, so their previous labels were not saved and it cannot be undone`
+        );
+      }
+
+      this.noteAudit({ resultIds: { undoOf: auditId } });
+      // The original action may have used another account than this call
+      const summary = await this.accountScope.run(
+        this.getAccount(entry.account),
+        () => this.reverseAuditEntry(entry, sendUpdates)
+      );
+
       return {
         content: [
           {
             type: "text",
-            text: `Error suggesting meetings: ${error.message}`,
+            text: `Undid ${entry.tool} from ${entry.timestamp}: ${summary}`,
           },
         ],
-        isError: true,
       };
+    } catch (error: any) {
+      return errorResult("Error undoing action", error);
     }
   }
 
-  private findFreeSlots(
-    busySlots: Array<{ start: string; end: string }>,
-    dayStart: Date,
-    dayEnd: Date,
-    meetingLengthMinutes: number
-  ): Array<{ start: Date; end: Date }> {
-    const freeSlots: Array<{ start: Date; end: Date }> = [];
-    let pointer = new Date(dayStart);
+  private async reverseAuditEntry(entry: AuditEntry, sendUpdates: string) {
+    const { before = {}, resultIds = {} } = entry;
 
-    // Sort busy slots
-    const sortedBusySlots = busySlots
-      .filter(
-        (slot) => new Date(slot.start) < dayEnd && new Date(slot.end) > dayStart
-      )
-      .sort(
-        (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
-      );
+    switch (entry.tool) {
+      case "modify_email":
+      case "batch_modify_emails": {
+        const ids = Object.keys(before.labels);
+        await this.restoreLabels(before.labels);
+        return `restored the previous labels of ${ids.length} message(s)`;
+      }
+      case "update_event": {
+        const calendarId = resultIds.calendarId as string;
+        const eventId = resultIds.eventId as string;
+        const existing = await this.calendar.events.get({
+          calendarId,
+          eventId,
+        });
+        if (existing.data.status === "cancelled") {
+          throw new Error(`Event ${eventId} is cancelled and cannot be edited`);
+        }
+        await this.calendar.events.patch({
+          calendarId,
+          eventId,
+          sendUpdates,
+          requestBody: before.event,
+        });
+        return `restored ${Object.keys(before.event).join(
+          ", "
+        )} of event ${eventId}`;
+      }
+      case "respond_to_event": {
+        const calendarId = resultIds.calendarId as string;
+        for (const previous of before.responses) {
+          const existing = await this.calendar.events.get({
+            calendarId,
+            eventId: previous.eventId,
+          });
+          const attendees = existing.data.attendees || [];
+          const self = attendees.find((attendee) => attendee.self);
+          if (!self) continue;
+          self.responseStatus = previous.responseStatus;
+          self.comment = previous.comment;
+          await this.calendar.events.patch({
+            calendarId,
+            eventId: previous.eventId,
+            sendUpdates,
+            requestBody: { attendees },
+          });
+        }
+        return `restored the previous response to ${before.responses.length} event(s)`;
+      }
+      case "create_label":
+        await this.gmail.users.labels.delete({
+          userId: "me",
+          id: resultIds.labelId as string,
+        });
+        return `removed label ${resultIds.labelId}`;
+      case "update_label":
+        await this.gmail.users.labels.patch({
+          userId: "me",
+          id: resultIds.labelId as string,
+          requestBody: before.label,
+        });
+        return `restored label ${before.label.name}`;
+      default:
+        throw new Error(`${entry.tool} cannot be undone`);
+    }
+  }
 
-    for (const busy of sortedBusySlots) {
-      const busyStart = new Date(busy.start);
-      const busyEnd = new Date(busy.end);
+  // Puts every message back to its recorded labels. Trash state goes through
+  // the trash endpoints; other labels Gmail manages itself are left alone.
+  private async restoreLabels(snapshot: Record<string, string[]>) {
+    await mapWithConcurrency(
+      Object.entries(snapshot),
+      MESSAGE_FETCH_CONCURRENCY,
+      async ([id, previous]) => {
+        const current =
+          (await this.fetchLabelSnapshot([id]))[id] || ([] as string[]);
 
-      // While loop to add multiple slots before busyStart
-      while (
-        busyStart.getTime() - pointer.getTime() >=
-        meetingLengthMinutes * 60000
-      ) {
-        freeSlots.push({
-          start: new Date(pointer),
-          end: new Date(pointer.getTime() + meetingLengthMinutes * 60000),
-        });
-        pointer.setTime(pointer.getTime() + meetingLengthMinutes * 60000);
+        const wasTrashed = previous.includes("TRASH");
+        if (current.includes("TRASH") && !wasTrashed) {
+          await this.gmail.users.messages.untrash({ userId: "me", id });
+        } else if (!current.includes("TRASH") && wasTrashed) {
+          await this.gmail.users.messages.trash({ userId: "me", id });
+        }
+
+        const addLabelIds = previous.filter(
+          (label) =>
+            !current.includes(label) && !UNMODIFIABLE_LABELS.includes(label)
+        );
+        const removeLabelIds = current.filter(
+          (label) =>
+            !previous.includes(label) && !UNMODIFIABLE_LABELS.includes(label)
+        );
+        if (addLabelIds.length || removeLabelIds.length) {
+          await this.gmail.users.messages.modify({
+            userId: "me",
+            id,
+            requestBody: { addLabelIds, removeLabelIds },
+          });
+        }
       }
+    );
+  }
 
-      // Move pointer to after the busy slot if pointer overlaps busy
-      if (pointer < busyEnd) pointer = new Date(busyEnd);
+  // Free/busy is read with each participant's own account, so one search
+  // can span calendars that no single account is allowed to see.
+  private async queryBusy(
+    participants: { calendarId: string; account?: string }[],
+    timeMin: DateTime,
+    timeMax: DateTime,
+    timezone: string
+  ) {
+    const calendarsByAccount = new Map<string | undefined, Set<string>>();
+    for (const { calendarId, account } of participants) {
+      if (!calendarsByAccount.has(account)) {
+        calendarsByAccount.set(account, new Set());
+      }
+      calendarsByAccount.get(account)!.add(calendarId);
     }
 
-    // After last busy slot: fill remaining time until dayEnd
-    while (
-      dayEnd.getTime() - pointer.getTime() >=
-      meetingLengthMinutes * 60000
-    ) {
-      freeSlots.push({
-        start: new Date(pointer),
-        end: new Date(pointer.getTime() + meetingLengthMinutes * 60000),
+    const busyByCalendar: Record<string, BusyInterval[]> = {};
+    for (const [account, calendarIdSet] of calendarsByAccount) {
+      const calendarIds = [...calendarIdSet];
+      const client = account
+        ? this.getAccount(account).calendar
+        : this.calendar;
+      const busyResponse = await client.freebusy.query({
+        requestBody: {
+          timeMin: timeMin.toISO(),
+          timeMax: timeMax.toISO(),
+          timeZone: timezone,
+          items: calendarIds.map((id) => ({ id })),
+        },
       });
-      pointer.setTime(pointer.getTime() + meetingLengthMinutes * 60000);
+
+      logger.debug("calendar", "Queried free/busy", {
+        account: account || this.accountScope.getStore()?.name,
+        busyIntervals: Object.fromEntries(
+          calendarIds.map((id) => [
+            id,
+            busyResponse.data.calendars?.[id]?.busy?.length || 0,
+          ])
+        ),
+      });
+
+      for (const id of calendarIds) {
+        const calendarResult = busyResponse.data.calendars?.[id];
+        if (calendarResult?.errors?.length) {
+          throw new Error(
+            `Could not read free/busy for ${id}${
+              account ? ` in account ${account}` : ""
+            }: ${calendarResult.errors.map((e) => e.reason).join(", ")}`
+          );
+        }
+        busyByCalendar[busyKey({ calendarId: id, account })] = (
+          calendarResult?.busy || []
+        ).filter((slot): slot is BusyInterval => !!slot.start && !!slot.end);
+      }
+    }
+
+    return busyByCalendar;
+  }
+
+  private async suggestMeetingSlots(args: any) {
+    const meetingLength = args?.meetingLengthMinutes || 60;
+    const timezone = args?.timezone || "America/Sao_Paulo";
+    const slotsPerDay = args?.slotsPerDay || 1;
+    const daysToSearch = args?.daysToSearch || 3;
+    const maxDaysToLookAhead = args?.maxDaysToLookAhead || 30;
+    const bankHolidays: string[] = args?.bankHolidays || [];
+    const participants = this.buildParticipants(args);
+    const options: SlotOptions = {
+      meetingLengthMinutes: meetingLength,
+      slotStepMinutes: args?.slotStepMinutes || 30,
+      bufferBeforeMinutes: args?.bufferBeforeMinutes || 0,
+      bufferAfterMinutes: args?.bufferAfterMinutes || 0,
+      preferences: args?.preferences || [],
+      timeZone: timezone,
+      notBefore: DateTime.now(),
+    };
+
+    let startDate;
+    if (args?.startDate) {
+      startDate = DateTime.fromISO(args.startDate, {
+        zone: timezone,
+      }).startOf("day");
+    } else {
+      // Default to tomorrow in the specified timezone
+      startDate = DateTime.now()
+        .setZone(timezone)
+        .plus({ days: 1 })
+        .startOf("day");
+    }
+
+    const endDate = startDate.plus({ days: maxDaysToLookAhead }).endOf("day");
+    await this.loadHolidays(
+      participants,
+      startDate.minus({ days: 1 }),
+      endDate.plus({ days: 1 })
+    );
+
+    // Pad the query window so buffers around meetings just outside it count.
+    const busyByCalendar = await this.queryBusy(
+      participants,
+      startDate.minus({ days: 1 }),
+      endDate.plus({ days: 1 }),
+      timezone
+    );
+
+    const suggestions: CandidateSlot[] = [];
+    let daysWithSlotsFound = 0;
+    let dayPointer = startDate;
+    while (daysWithSlotsFound < daysToSearch && dayPointer < endDate) {
+      if (!bankHolidays.includes(dayPointer.toISODate()!)) {
+        const freeSlots = findFreeSlots(
+          dayPointer,
+          participants,
+          busyByCalendar,
+          options
+        );
+        const picked = pickBestSlots(freeSlots, slotsPerDay);
+        if (picked.length) {
+          suggestions.push(...picked);
+          daysWithSlotsFound++;
+        }
+      }
+
+      dayPointer = dayPointer.plus({ days: 1 });
     }
 
-    return freeSlots;
+    suggestions.sort(
+      (a, b) => b.score - a.score || a.start.toMillis() - b.start.toMillis()
+    );
+
+    return { suggestions, participants, busyByCalendar, options, timezone };
+  }
+
+  private formatSlot(slot: CandidateSlot, timezone: string) {
+    return {
+      start: slot.start.setZone(timezone).toISO(),
+      end: slot.end.setZone(timezone).toISO(),
+      score: slot.score,
+      ...(slot.availableOptional.length || slot.unavailableOptional.length
+        ? {
+            optionalAvailable: slot.availableOptional,
+            optionalUnavailable: slot.unavailableOptional,
+          }
+        : {}),
+    };
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport) {
     await this.server.connect(transport);
-    console.error("Google Workspace MCP server running on stdio");
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message, extra) =>
+      logger.runInSession(this.logSession, () =>
+        onmessage?.call(transport, message, extra)
+      );
+  }
+
+  async close() {
+    this.stopResourcePolling();
+    this.stopLogForwarding?.();
+    await this.server.close();
+  }
+}
+
+async function run() {
+  const httpOptions = httpOptionsFromEnv(process.argv.slice(2), process.env);
+
+  if (httpOptions) {
+    const sessions = new Set<GoogleWorkspaceServer>();
+    const httpServer = await startHttpServer(() => {
+      const session = new GoogleWorkspaceServer(true);
+      sessions.add(session);
+      return {
+        connect: (transport) => session.connect(transport),
+        close: async () => {
+          if (!sessions.delete(session)) return;
+          await session.close();
+        },
+      };
+    }, httpOptions);
+    logger.info(
+      "server",
+      `Google Workspace MCP server listening on http://${httpOptions.host}:${httpOptions.port}/mcp`
+    );
+
+    const shutdown = async () => {
+      await Promise.allSettled([...sessions].map((session) => session.close()));
+      httpServer.close();
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    return;
   }
+
+  const server = new GoogleWorkspaceServer();
+  await server.connect(new StdioServerTransport());
+  logger.info("server", "Google Workspace MCP server running on stdio");
+  process.on("SIGINT", async () => {
+    await server.close();
+    process.exit(0);
+  });
 }
 
-const server = new GoogleWorkspaceServer();
-server.run().catch(console.error);
+run().catch((error) => logger.error("server", "Server failed", error));
@@ -0,0 +1,59 @@
+// High-level modify_email actions expressed as system label changes. trash
+// and untrash are separate Gmail endpoints, so they are handled by the caller.
+export const LABEL_ACTIONS: Record<string, { add?: string; remove?: string }> =
+  {
+    archive: { remove: "INBOX" },
+    unarchive: { add: "INBOX" },
+    markRead: { remove: "UNREAD" },
+    markUnread: { add: "UNREAD" },
+    star: { add: "STARRED" },
+    unstar: { remove: "STARRED" },
+    markImportant: { add: "IMPORTANT" },
+    markNotImportant: { remove: "IMPORTANT" },
+  };
+
+export const MESSAGE_ACTIONS = [
+  ...Object.keys(LABEL_ACTIONS),
+  "trash",
+  "untrash",
+];
+
+export interface LabelChanges {
+  add: string[];
+  remove: string[];
+  trash: boolean;
+  untrash: boolean;
+}
+
+export function actionsToLabelChanges(actions: string[] = []): LabelChanges {
+  const changes: LabelChanges = {
+    add: [],
+    remove: [],
+    trash: false,
+    untrash: false,
+  };
+
+  for (const action of actions) {
+    if (action === "trash") {
+      changes.trash = true;
+    } else if (action === "untrash") {
+      changes.untrash = true;
+    } else if (LABEL_ACTIONS[action]) {
+      const { add, remove } = LABEL_ACTIONS[action];
+      if (add) changes.add.push(add);
+      if (remove) changes.remove.push(remove);
+    } else {
+      throw new Error(
+        `Unknown action: ${action}. Expected one of ${MESSAGE_ACTIONS.join(
+          ", "
+        )}`
+      );
+    }
+  }
+
+  if (changes.trash && changes.untrash) {
+    throw new Error("Cannot trash and untrash a message in the same call");
+  }
+
+  return changes;
+}
@@ -0,0 +1,175 @@
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+// Lowest to highest severity, as defined by the MCP logging capability
+export const LOG_LEVELS: LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+export interface LogRecord {
+  timestamp: string;
+  level: LoggingLevel;
+  logger: string;
+  message: string;
+  data?: unknown;
+  // Client session whose request produced the record; unset for records of
+  // the server as a whole
+  session?: string;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)/g;
+
+// Fields that hold message or event content, or secrets, and are never logged
+const REDACTED_KEYS = [
+  "body",
+  "htmlBody",
+  "raw",
+  "content",
+  "text",
+  "snippet",
+  "description",
+  "attachments",
+  "refreshToken",
+  "refresh_token",
+  "access_token",
+  "clientSecret",
+  "client_secret",
+  "authorization",
+  "confirmationToken",
+];
+
+const MAX_DEPTH = 6;
+
+export function isLevelEnabled(level: LoggingLevel, threshold: LoggingLevel) {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+// Keeps the domain of each email address, which is usually enough to debug
+// with, and drops content fields entirely.
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.replace(EMAIL_PATTERN, "***@$1");
+  }
+  if (value instanceof Error) {
+    const { code, status } = value as Error & {
+      code?: unknown;
+      status?: unknown;
+    };
+    return {
+      name: value.name,
+      message: redact(value.message),
+      ...(code !== undefined ? { code } : {}),
+      ...(status !== undefined ? { status } : {}),
+    };
+  }
+  if (!value || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[nested too deeply]";
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      REDACTED_KEYS.includes(key) && item !== undefined && item !== null
+        ? "[redacted]"
+        : redact(item, depth + 1),
+    ])
+  );
+}
+
+function parseLevel(value: string | undefined, variable: string) {
+  if (!value) return undefined;
+  const level = value.toLowerCase() as LoggingLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`${variable} must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+  return level;
+}
+
+// Writes JSON lines to stderr, or to MCP_LOG_FILE, and hands every record to
+// subscribed sinks such as connected MCP clients. stdout is never used: on
+// stdio it carries the protocol.
+export class Logger {
+  private sinks = new Set<LogSink>();
+  private sessionScope = new AsyncLocalStorage<string>();
+
+  constructor(private level: LoggingLevel, private file?: string) {
+    if (file) mkdirSync(dirname(file), { recursive: true });
+  }
+
+  // Sinks get every record and apply their own level
+  subscribe(sink: LogSink) {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  // Records logged from fn, and from anything it starts, carry the session
+  runInSession<T>(session: string, fn: () => T) {
+    return this.sessionScope.run(session, fn);
+  }
+
+  log(level: LoggingLevel, logger: string, message: string, data?: unknown) {
+    const session = this.sessionScope.getStore();
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      logger,
+      message: redact(message) as string,
+      ...(data !== undefined ? { data: redact(data) } : {}),
+      ...(session ? { session } : {}),
+    };
+
+    if (isLevelEnabled(level, this.level)) {
+      const line = `${JSON.stringify(record)}\n`;
+      try {
+        if (this.file) appendFileSync(this.file, line);
+        else process.stderr.write(line);
+      } catch {
+        process.stderr.write(line);
+      }
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A failing client must not break logging for everyone else
+      }
+    }
+  }
+
+  debug(logger: string, message: string, data?: unknown) {
+    this.log("debug", logger, message, data);
+  }
+
+  info(logger: string, message: string, data?: unknown) {
+    this.log("info", logger, message, data);
+  }
+
+  warning(logger: string, message: string, data?: unknown) {
+    this.log("warning", logger, message, data);
+  }
+
+  error(logger: string, message: string, data?: unknown) {
+    this.log("error", logger, message, data);
+  }
+}
+
+export const logger = new Logger(
+  parseLevel(process.env.MCP_LOG_LEVEL, "MCP_LOG_LEVEL") || "info",
+  process.env.MCP_LOG_FILE
+);
@@ -0,0 +1,340 @@
+import type { gmail_v1 } from "@googleapis/gmail";
+import { randomBytes } from "node:crypto";
+
+type MessagePart = gmail_v1.Schema$MessagePart;
+
+export interface AttachmentInfo {
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId: string;
+}
+
+export interface MimeNode {
+  mimeType: string;
+  filename?: string;
+  size: number;
+  parts?: MimeNode[];
+}
+
+export interface CalendarPart {
+  data?: string;
+  attachmentId?: string;
+}
+
+export interface MessageContent {
+  text: string;
+  html: string;
+  attachments: AttachmentInfo[];
+  // text/calendar invitations, inline (data) or stored as attachments
+  calendarParts: CalendarPart[];
+}
+
+export function getHeader(
+  headers: gmail_v1.Schema$MessagePartHeader[] | undefined,
+  name: string
+): string {
+  const lower = name.toLowerCase();
+  return headers?.find((h) => h.name?.toLowerCase() === lower)?.value || "";
+}
+
+export function decodeBase64Url(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+export function encodeBase64Url(data: string | Buffer): string {
+  return Buffer.from(data)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Gmail hands us the parsed MIME tree, so we only need to walk it and pick
+// out the first text/plain and text/html bodies plus anything that looks like
+// a file.
+export function extractMessageContent(
+  payload: MessagePart | undefined
+): MessageContent {
+  const content: MessageContent = {
+    text: "",
+    html: "",
+    attachments: [],
+    calendarParts: [],
+  };
+  if (payload) walkParts(payload, content);
+  return content;
+}
+
+function walkParts(part: MessagePart, content: MessageContent) {
+  const mimeType = (part.mimeType || "").toLowerCase();
+
+  if (
+    (mimeType === "text/calendar" || mimeType === "application/ics") &&
+    (part.body?.data || part.body?.attachmentId)
+  ) {
+    content.calendarParts.push({
+      data: part.body.data || undefined,
+      attachmentId: part.body.attachmentId || undefined,
+    });
+  }
+
+  if (part.filename && part.body?.attachmentId) {
+    content.attachments.push({
+      filename: part.filename,
+      mimeType: part.mimeType || "application/octet-stream",
+      size: part.body.size || 0,
+      attachmentId: part.body.attachmentId,
+    });
+    return;
+  }
+
+  if (part.parts?.length) {
+    for (const child of part.parts) walkParts(child, content);
+    return;
+  }
+
+  const data = part.body?.data;
+  if (!data) return;
+
+  if (mimeType === "text/plain" && !content.text) {
+    content.text = decodeBase64Url(data).toString("utf-8");
+  } else if (mimeType === "text/html" && !content.html) {
+    content.html = decodeBase64Url(data).toString("utf-8");
+  }
+}
+
+export function describeMimeTree(part: MessagePart): MimeNode {
+  const node: MimeNode = {
+    mimeType: part.mimeType || "",
+    size: part.body?.size || 0,
+  };
+  if (part.filename) node.filename = part.filename;
+  if (part.parts?.length) node.parts = part.parts.map(describeMimeTree);
+  return node;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1].toLowerCase() === "x"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return Number.isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export interface OutgoingAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface ComposeOptions {
+  to: string;
+  subject: string;
+  body: string;
+  cc?: string;
+  bcc?: string;
+  inReplyTo?: string;
+  references?: string;
+  attachments?: OutgoingAttachment[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+  html: "text/html",
+  htm: "text/html",
+  ics: "text/calendar",
+  json: "application/json",
+  xml: "application/xml",
+  zip: "application/zip",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+export function guessMimeType(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() || "";
+  return MIME_TYPES[extension] || "application/octet-stream";
+}
+
+// RFC 2047 encoded-word for header values that are not plain ASCII.
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+// A line break inside a header value would start a new header, such as a Bcc
+// that no recipient check ever saw. Address headers refuse them; threading
+// headers, which come from other people's messages, are unfolded instead.
+function addressHeader(name: string, value: string) {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`${name} must not contain line breaks`);
+  }
+  return `${name}: ${value}`;
+}
+
+function unfoldHeader(value: string) {
+  return value.replace(/[\r\n]+[ \t]*/g, " ");
+}
+
+export function buildMimeMessage(options: ComposeOptions): string {
+  const {
+    to,
+    subject,
+    body,
+    cc,
+    bcc,
+    inReplyTo,
+    references,
+    attachments = [],
+  } = options;
+
+  const headers = [
+    "MIME-Version: 1.0",
+    addressHeader("To", to),
+    cc ? addressHeader("Cc", cc) : "",
+    bcc ? addressHeader("Bcc", bcc) : "",
+    inReplyTo ? `In-Reply-To: ${unfoldHeader(inReplyTo)}` : "",
+    references ? `References: ${unfoldHeader(references)}` : "",
+    `Subject: ${encodeHeader(subject)}`,
+  ].filter(Boolean);
+
+  if (attachments.length === 0) {
+    return [
+      "Content-Type: text/html; charset=utf-8",
+      ...headers,
+      "",
+      body,
+    ].join("\r\n");
+  }
+
+  const boundary = `mixed_${randomBytes(12).toString("hex")}`;
+  const lines = [
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    ...headers,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    body,
+  ];
+
+  for (const attachment of attachments) {
+    const filename = encodeHeader(attachment.filename).replace(/"/g, "");
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.mimeType}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      ...(attachment.content.toString("base64").match(/.{1,76}/g) || [])
+    );
+  }
+  lines.push(`--${boundary}--`);
+
+  return lines.join("\r\n");
+}
+
+// Splits an address header on commas that are not inside quotes or angle
+// brackets, so `"Doe, Jane" <jane@example.com>` stays in one piece.
+export function parseAddressList(header: string): string[] {
+  const addresses: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (const char of header) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "<" && !inQuotes) inAngle = true;
+    else if (char === ">" && !inQuotes) inAngle = false;
+
+    if (char === "," && !inQuotes && !inAngle) {
+      if (current.trim()) addresses.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) addresses.push(current.trim());
+
+  return addresses;
+}
+
+export function extractEmailAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim().toLowerCase();
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Renders an outgoing message for a confirmation preview: its headers, the
+// parsed recipients and the full MIME text with attachment data replaced by
+// its size.
+export function previewMimeMessage(message: string) {
+  const head = message.slice(0, message.indexOf("\r\n\r\n"));
+  const headers: Record<string, string> = {};
+  for (const line of head.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers[line.slice(0, separator)] = line.slice(separator + 1).trim();
+    }
+  }
+
+  const mime = message.replace(
+    /(Content-Transfer-Encoding: base64\r\n\r\n)([A-Za-z0-9+/=\r\n]+?)(?=\r\n--)/g,
+    (_, prefix: string, data: string) =>
+      `${prefix}[${
+        Buffer.from(data.replace(/\r\n/g, ""), "base64").length
+      } bytes of attachment data]`
+  );
+
+  return {
+    headers,
+    recipients: {
+      to: parseAddressList(headers.To || ""),
+      cc: parseAddressList(headers.Cc || ""),
+      bcc: parseAddressList(headers.Bcc || ""),
+    },
+    mime,
+  };
+}
@@ -0,0 +1,52 @@
+import { realpath } from "node:fs/promises";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
+
+function isInside(base: string, target: string) {
+  const path = relative(base, target);
+  return path !== ".." && !path.startsWith(`..${sep}`) && !isAbsolute(path);
+}
+
+// The real location of a path that may not exist yet, going by its parent
+async function realLocation(path: string) {
+  try {
+    return await realpath(path);
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+    return join(await realpath(dirname(path)), basename(path));
+  }
+}
+
+// Resolves a file path a tool was given. When baseDir is set, relative paths
+// start there and anything that ends up outside it, also through a symlink,
+// is refused. Remote clients get no file access without a baseDir.
+export async function resolvePathArgument(
+  path: string,
+  baseDir: string | undefined,
+  setting: string,
+  remote = false
+) {
+  if (!baseDir) {
+    if (remote) {
+      throw new Error(
+        `Local file paths are only accepted over HTTP when ${setting} is set`
+      );
+    }
+    return resolve(path);
+  }
+
+  const base = await realpath(resolve(baseDir));
+  const outside = new Error(`${path} is outside ${setting} (${base})`);
+  const target = resolve(base, path);
+  if (!isInside(base, target)) throw outside;
+  const real = await realLocation(target);
+  if (!isInside(base, real)) throw outside;
+  return real;
+}
@@ -0,0 +1,323 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { readFileSync } from "node:fs";
+import { LABEL_ACTIONS } from "./labels.js";
+import { extractEmailAddress, parseAddressList } from "./mime.js";
+
+export interface ToolPolicy {
+  enabled?: boolean;
+  rateLimit?: { max: number; windowSeconds: number };
+}
+
+export interface ConfirmationRule {
+  // Tool name, or "*" for every write tool
+  tool: string;
+  // Only when the call reaches at least this many recipients
+  minRecipients?: number;
+  // Only when a recipient is outside recipients.internalDomains
+  externalRecipients?: boolean;
+}
+
+export interface Policy {
+  readOnly?: boolean;
+  tools?: Record<string, ToolPolicy>;
+  recipients?: {
+    allowDomains?: string[];
+    denyDomains?: string[];
+    internalDomains?: string[];
+    maxRecipients?: number;
+  };
+  forbiddenLabels?: string[];
+  requireConfirmation?: ConfirmationRule[];
+}
+
+// Tools that change data in Google or send something on the user's behalf
+export const WRITE_TOOLS = [
+  "send_email",
+  "create_draft",
+  "update_draft",
+  "send_draft",
+  "reply_to_email",
+  "modify_email",
+  "batch_modify_emails",
+  "create_label",
+  "update_label",
+  "delete_label",
+  "create_event",
+  "update_event",
+  "import_ics",
+  "respond_to_event",
+  "book_meeting",
+  "undo_action",
+];
+
+// Tools that read data but write a local file for some arguments. Read-only
+// mode refuses those calls while keeping the tools available for reading.
+const FILE_WRITES: Record<string, (args: any) => boolean> = {
+  export_events_ics: (args) => !!args?.outputPath,
+  get_attachment: (args) => !!args?.saveToDisk,
+};
+
+export function loadPolicy(env: NodeJS.ProcessEnv): Policy {
+  let policy: Policy = {};
+  if (env.GOOGLE_POLICY_FILE) {
+    try {
+      policy = JSON.parse(readFileSync(env.GOOGLE_POLICY_FILE, "utf8"));
+    } catch (error: any) {
+      throw new Error(
+        `Could not read policy file ${env.GOOGLE_POLICY_FILE}: ${error.message}`
+      );
+    }
+  }
+
+  // GOOGLE_REQUIRE_CONFIRMATION=all, or a comma-separated list of tools,
+  // turns on confirmation without writing a policy file.
+  const confirmTools = (env.GOOGLE_REQUIRE_CONFIRMATION || "")
+    .split(",")
+    .map((tool) => tool.trim())
+    .filter(Boolean);
+  if (confirmTools.length) {
+    policy.requireConfirmation = [
+      ...(policy.requireConfirmation || []),
+      ...confirmTools.map((tool) => ({ tool: tool === "all" ? "*" : tool })),
+    ];
+  }
+
+  return policy;
+}
+
+function violation(rule: string, message: string) {
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `Policy violation: ${message}`,
+    { policy: rule }
+  );
+}
+
+function domainOf(address: string) {
+  return extractEmailAddress(address).split("@")[1] || "";
+}
+
+// A domain entry also covers its subdomains
+function matchesDomain(domain: string, domains: string[]) {
+  return domains.some((entry) => {
+    const normalized = entry.toLowerCase().replace(/^@/, "");
+    return domain === normalized || domain.endsWith(`.${normalized}`);
+  });
+}
+
+const ADDR_SPEC = /^[^\s@<>()[\]\\,;:"]+@[^\s@<>()[\]\\,;:"]+$/;
+
+// An entry is either a bare address or a display name followed by one
+// <address>. Anything else, like a line break that would start a new header,
+// could reach addresses the checks never saw.
+function isSingleAddress(entry: string) {
+  if (/[\r\n]/.test(entry)) return false;
+  const unquoted = entry.replace(/"(?:[^"\\]|\\.)*"/g, '""').trim();
+  const angle = unquoted.match(/^[^<>@]*<([^<>]*)>$/);
+  if (angle) return ADDR_SPEC.test(angle[1].trim());
+  return !/[<>]/.test(unquoted) && ADDR_SPEC.test(unquoted);
+}
+
+function addressesFrom(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.flatMap(addressesFrom);
+  return parseAddressList(String(value));
+}
+
+// Recipients a tool call names explicitly. Replies and drafts can pick up
+// more from existing messages; handlers check those with checkRecipients.
+function recipientsOf(name: string, args: any): string[] {
+  return [
+    ...addressesFrom(args?.to),
+    ...addressesFrom(args?.cc),
+    ...addressesFrom(args?.bcc),
+    ...addressesFrom(args?.attendees),
+    ...addressesFrom(args?.addAttendees),
+    // book_meeting invites participants whose calendar ID is an address
+    ...(name === "book_meeting"
+      ? (args?.participants || [])
+          .map((participant: any) => participant.calendarId)
+          .filter((id: unknown) => String(id).includes("@"))
+      : []),
+  ];
+}
+
+export class PolicyEngine {
+  // Start times of recent calls per tool, for rate limiting
+  private calls = new Map<string, number[]>();
+
+  constructor(private policy: Policy) {}
+
+  get hasRecipientRules() {
+    return !!this.policy.recipients;
+  }
+
+  get hasLabelRules() {
+    return !!this.policy.forbiddenLabels?.length;
+  }
+
+  get readOnly() {
+    return !!this.policy.readOnly;
+  }
+
+  isToolEnabled(name: string) {
+    if (this.policy.readOnly && WRITE_TOOLS.includes(name)) return false;
+    return this.policy.tools?.[name]?.enabled !== false;
+  }
+
+  hasConfirmationRules(name: string) {
+    return (this.policy.requireConfirmation || []).some(
+      (rule) =>
+        rule.tool === name || (rule.tool === "*" && WRITE_TOOLS.includes(name))
+    );
+  }
+
+  // Runs before a tool is dispatched and throws an McpError on the first
+  // rule the call breaks. Confirmation and rate limits are checked
+  // separately, since a preview neither needs one nor counts towards the other.
+  checkToolCall(name: string, args: any) {
+    if (this.policy.readOnly && WRITE_TOOLS.includes(name)) {
+      throw violation(
+        "readOnly",
+        `${name} is not allowed because the server is in read-only mode`
+      );
+    }
+    if (this.policy.readOnly && FILE_WRITES[name]?.(args)) {
+      throw violation(
+        "readOnly",
+        `${name} may not write local files because the server is in read-only mode`
+      );
+    }
+    if (this.policy.tools?.[name]?.enabled === false) {
+      throw violation("tools.enabled", `${name} is disabled by policy`);
+    }
+
+    this.checkRecipients(recipientsOf(name, args));
+    this.checkLabels(args);
+  }
+
+  checkRecipients(recipients: string[]) {
+    const rules = this.policy.recipients;
+    if (!rules) return;
+
+    if (
+      rules.maxRecipients !== undefined &&
+      recipients.length > rules.maxRecipients
+    ) {
+      throw violation(
+        "recipients.maxRecipients",
+        `${recipients.length} recipients exceed the limit of ${rules.maxRecipients}`
+      );
+    }
+
+    for (const recipient of recipients) {
+      if (!isSingleAddress(recipient)) {
+        throw violation(
+          "recipients",
+          `${JSON.stringify(recipient)} is not a single email address`
+        );
+      }
+      const domain = domainOf(recipient);
+      if (rules.denyDomains && matchesDomain(domain, rules.denyDomains)) {
+        throw violation(
+          "recipients.denyDomains",
+          `sending to ${extractEmailAddress(recipient)} is blocked`
+        );
+      }
+      if (rules.allowDomains && !matchesDomain(domain, rules.allowDomains)) {
+        throw violation(
+          "recipients.allowDomains",
+          `${extractEmailAddress(
+            recipient
+          )} is outside the allowed domains (${rules.allowDomains.join(", ")})`
+        );
+      }
+    }
+  }
+
+  private isForbiddenLabel(...idOrNames: (string | null | undefined)[]) {
+    const forbidden = (this.policy.forbiddenLabels || []).map((label) =>
+      label.toUpperCase()
+    );
+    return idOrNames.some(
+      (label) => !!label && forbidden.includes(label.toUpperCase())
+    );
+  }
+
+  private checkLabels(args: any) {
+    if (!this.hasLabelRules) return;
+
+    const actions: string[] = args?.actions || [];
+    const added = [
+      ...(args?.addLabels || []),
+      ...actions.map((action) =>
+        action === "trash" ? "TRASH" : LABEL_ACTIONS[action]?.add
+      ),
+    ].filter(Boolean);
+    const blocked = added.find((label: string) =>
+      this.isForbiddenLabel(String(label))
+    );
+    if (blocked) {
+      throw violation(
+        "forbiddenLabels",
+        `applying the label ${blocked} is not allowed`
+      );
+    }
+  }
+
+  // A forbidden label can also be named by its ID, so handlers check the
+  // label IDs they resolved against both the ID and the name of each label.
+  checkLabelIds(
+    labelIds: string[],
+    labels: { id?: string | null; name?: string | null }[]
+  ) {
+    for (const id of labelIds) {
+      const name = labels.find((label) => label.id === id)?.name;
+      if (this.isForbiddenLabel(id, name)) {
+        throw violation(
+          "forbiddenLabels",
+          `applying the label ${name || id} is not allowed`
+        );
+      }
+    }
+  }
+
+  needsConfirmation(name: string, args: any) {
+    const recipients = recipientsOf(name, args);
+    const internalDomains = this.policy.recipients?.internalDomains || [];
+    return (this.policy.requireConfirmation || []).some(
+      (rule) =>
+        (rule.tool === name ||
+          (rule.tool === "*" && WRITE_TOOLS.includes(name))) &&
+        (rule.minRecipients === undefined ||
+          recipients.length >= rule.minRecipients) &&
+        (!rule.externalRecipients ||
+          recipients.some(
+            (recipient) => !matchesDomain(domainOf(recipient), internalDomains)
+          ))
+    );
+  }
+
+  // Counts the call towards the tool's rate limit, or throws when the limit
+  // is already used up.
+  checkRateLimit(name: string) {
+    const limit = this.policy.tools?.[name]?.rateLimit;
+    if (!limit) return;
+
+    const now = Date.now();
+    const recent = (this.calls.get(name) || []).filter(
+      (time) => now - time < limit.windowSeconds * 1000
+    );
+    if (recent.length >= limit.max) {
+      const retryAfter = Math.ceil(
+        (recent[0] + limit.windowSeconds * 1000 - now) / 1000
+      );
+      throw violation(
+        "tools.rateLimit",
+        `${name} may run ${limit.max} times per ${limit.windowSeconds} seconds; try again in ${retryAfter} seconds`
+      );
+    }
+    recent.push(now);
+    this.calls.set(name, recent);
+  }
+}
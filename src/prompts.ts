@@ -0,0 +1,69 @@
+export const PROMPTS = [
+  {
+    name: "inbox_triage",
+    description:
+      "Sort matching emails into reply now, read later, delegate and archive, with suggested actions",
+    arguments: [
+      {
+        name: "query",
+        description: 'Gmail search query (default: "in:inbox is:unread")',
+        required: false,
+      },
+      {
+        name: "max",
+        description: "Maximum number of emails to triage (default: 20)",
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "daily_briefing",
+    description:
+      "Summarize today's calendar and the unread important emails into a short briefing",
+    arguments: [
+      {
+        name: "calendarId",
+        description: 'Calendar to brief on (default: "primary")',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "meeting_prep",
+    description:
+      "Prepare for a meeting using the event details and recent email threads with each attendee",
+    arguments: [
+      {
+        name: "eventId",
+        description: "ID of the event to prepare for",
+        required: true,
+      },
+      {
+        name: "calendarId",
+        description: 'Calendar containing the event (default: "primary")',
+        required: false,
+      },
+    ],
+  },
+];
+
+export const PROMPT_INSTRUCTIONS: Record<string, string> = {
+  inbox_triage: [
+    "Triage the emails below. Put each one in exactly one group:",
+    "- Reply now: needs a response from me today",
+    "- Read later: worth reading but no action needed",
+    "- Delegate: someone else should handle it",
+    "- Archive: no value in keeping it in the inbox",
+    "For every email give the subject, the sender and a one-line reason. Suggest label or archive actions I can apply with modify_email or batch_modify_emails, but do not apply them without asking.",
+  ].join("\n"),
+  daily_briefing: [
+    "Write my daily briefing from the calendar and email data below.",
+    "Start with today's schedule in order, flagging conflicts, back-to-back meetings and events without an agenda.",
+    "Then summarize the unread important emails, most urgent first, and end with up to three things I should do before my first meeting.",
+  ].join("\n"),
+  meeting_prep: [
+    "Help me prepare for the meeting below.",
+    "Summarize its purpose, then for each attendee list the open topics from our recent emails.",
+    "Finish with questions to raise and anything I still owe someone before the meeting.",
+  ].join("\n"),
+};
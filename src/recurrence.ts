@@ -0,0 +1,136 @@
+import { DateTime } from "luxon";
+
+export interface RecurrenceSpec {
+  frequency: "daily" | "weekly" | "monthly" | "yearly";
+  interval?: number;
+  byWeekday?: string[];
+  until?: string;
+  count?: number;
+}
+
+const FREQUENCIES: Record<string, RecurrenceSpec["frequency"]> = {
+  daily: "daily",
+  day: "daily",
+  days: "daily",
+  weekly: "weekly",
+  week: "weekly",
+  weeks: "weekly",
+  monthly: "monthly",
+  month: "monthly",
+  months: "monthly",
+  yearly: "yearly",
+  year: "yearly",
+  years: "yearly",
+  annually: "yearly",
+};
+
+const WEEKDAYS: Record<string, string> = {
+  mo: "MO",
+  mon: "MO",
+  monday: "MO",
+  tu: "TU",
+  tue: "TU",
+  tues: "TU",
+  tuesday: "TU",
+  we: "WE",
+  wed: "WE",
+  wednesday: "WE",
+  th: "TH",
+  thu: "TH",
+  thur: "TH",
+  thurs: "TH",
+  thursday: "TH",
+  fr: "FR",
+  fri: "FR",
+  friday: "FR",
+  sa: "SA",
+  sat: "SA",
+  saturday: "SA",
+  su: "SU",
+  sun: "SU",
+  sunday: "SU",
+};
+
+function normalizeWeekday(day: string): string {
+  const code = WEEKDAYS[day.trim().toLowerCase()];
+  if (!code) throw new Error(`Unknown weekday in recurrence: ${day}`);
+  return code;
+}
+
+// Parses phrases such as "weekly on Mon/Wed until 2025-06-30",
+// "every 2 weeks on Friday" or "daily for 10 times".
+export function parseRecurrenceText(text: string): RecurrenceSpec {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(
+      /^(?:every\s+(\d+)\s+)?(\w+)(?:\s+on\s+([a-z/,\s]+?))?(?:\s+until\s+(\d{4}-\d{2}-\d{2}))?(?:\s+for\s+(\d+)\s+(?:times|occurrences))?$/
+    );
+  const frequency = match && FREQUENCIES[match[2]];
+  if (!match || !frequency) {
+    throw new Error(
+      `Could not understand recurrence "${text}". Use a form like "weekly on Mon/Wed until 2025-06-30" or an RRULE`
+    );
+  }
+
+  return {
+    frequency,
+    interval: match[1] ? Number(match[1]) : undefined,
+    byWeekday: match[3]
+      ? match[3]
+          .split(/[/,]|\s+and\s+|\s+/)
+          .filter(Boolean)
+          .map(normalizeWeekday)
+      : undefined,
+    until: match[4],
+    count: match[5] ? Number(match[5]) : undefined,
+  };
+}
+
+// Turns a friendly spec or phrase into the RFC 5545 lines Google Calendar
+// expects in `recurrence`. Raw RRULE/EXRULE/RDATE/EXDATE lines pass through.
+export function buildRecurrence(
+  input: string | string[] | RecurrenceSpec,
+  options: { allDay: boolean; timeZone: string }
+): string[] {
+  if (Array.isArray(input)) {
+    return input.flatMap((entry) => buildRecurrence(entry, options));
+  }
+  if (
+    typeof input === "string" &&
+    /^(RRULE|EXRULE|RDATE|EXDATE)[:;]/i.test(input)
+  ) {
+    return [input];
+  }
+
+  const spec = typeof input === "string" ? parseRecurrenceText(input) : input;
+  if (spec.until && spec.count) {
+    throw new Error("A recurrence can have an end date or a count, not both");
+  }
+
+  const parts = [`FREQ=${spec.frequency.toUpperCase()}`];
+  if (spec.interval && spec.interval > 1) {
+    parts.push(`INTERVAL=${spec.interval}`);
+  }
+  if (spec.byWeekday?.length) {
+    parts.push(`BYDAY=${spec.byWeekday.map(normalizeWeekday).join(",")}`);
+  }
+  if (spec.until) {
+    // UNTIL is inclusive: the whole final day counts, and for timed events
+    // it has to be expressed in UTC.
+    const until = DateTime.fromISO(spec.until, { zone: options.timeZone });
+    if (!until.isValid) {
+      throw new Error(`Invalid recurrence end date: ${spec.until}`);
+    }
+    parts.push(
+      `UNTIL=${
+        options.allDay
+          ? until.toFormat("yyyyMMdd")
+          : until.endOf("day").toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")
+      }`
+    );
+  }
+  if (spec.count) parts.push(`COUNT=${spec.count}`);
+
+  return [`RRULE:${parts.join(";")}`];
+}
@@ -0,0 +1,68 @@
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "gmail://message/{id}",
+    name: "Gmail message",
+    description: "A single email with its decoded body and attachment list",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "gmail://thread/{id}",
+    name: "Gmail thread",
+    description: "Every message in a thread, oldest first",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "gmail://label/{name}",
+    name: "Gmail label",
+    description: "The most recent emails carrying a label, e.g. INBOX",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "calendar://{calendarId}/event/{id}",
+    name: "Calendar event",
+    description: "A single calendar event",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "calendar://{calendarId}/agenda/today",
+    name: "Today's agenda",
+    description: "Today's events on a calendar, in the calendar's timezone",
+    mimeType: "application/json",
+  },
+];
+
+export type ResourceTarget =
+  | { kind: "message"; id: string }
+  | { kind: "thread"; id: string }
+  | { kind: "label"; name: string }
+  | { kind: "event"; calendarId: string; id: string }
+  | { kind: "agenda"; calendarId: string };
+
+export function parseResourceUri(uri: string): ResourceTarget | undefined {
+  let match = uri.match(/^gmail:\/\/(message|thread)\/([^/]+)$/);
+  if (match) {
+    return {
+      kind: match[1] as "message" | "thread",
+      id: decodeURIComponent(match[2]),
+    };
+  }
+
+  match = uri.match(/^gmail:\/\/label\/(.+)$/);
+  if (match) return { kind: "label", name: decodeURIComponent(match[1]) };
+
+  match = uri.match(/^calendar:\/\/([^/]+)\/event\/([^/]+)$/);
+  if (match) {
+    return {
+      kind: "event",
+      calendarId: decodeURIComponent(match[1]),
+      id: decodeURIComponent(match[2]),
+    };
+  }
+
+  match = uri.match(/^calendar:\/\/([^/]+)\/agenda\/today$/);
+  if (match) {
+    return { kind: "agenda", calendarId: decodeURIComponent(match[1]) };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,224 @@
+import { DateTime } from "luxon";
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+export interface Participant {
+  calendarId: string;
+  // Configured account whose credentials read this calendar
+  account?: string;
+  timeZone: string;
+  workingHoursStart: number;
+  workingHoursEnd: number;
+  // Luxon weekdays: 1 = Monday ... 7 = Sunday
+  workingDays: number[];
+  optional: boolean;
+  holidayRegion?: string;
+  holidayFile?: string;
+  // Local YYYY-MM-DD dates the participant does not work, with their names
+  holidays?: Map<string, string>;
+}
+
+export interface SlotOptions {
+  meetingLengthMinutes: number;
+  slotStepMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  preferences: string[];
+  // Zone used to decide what "morning" or "Friday" means for preferences
+  timeZone: string;
+  notBefore?: DateTime;
+}
+
+export interface CandidateSlot {
+  start: DateTime;
+  end: DateTime;
+  score: number;
+  availableOptional: string[];
+  unavailableOptional: string[];
+}
+
+// Calendars are identified by account as well, since every account has its
+// own "primary".
+export function busyKey(participant: { calendarId: string; account?: string }) {
+  return participant.account
+    ? `${participant.account}/${participant.calendarId}`
+    : participant.calendarId;
+}
+
+const WEEKDAY_NUMBERS: Record<string, number> = {
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tuesday: 2,
+  wed: 3,
+  wednesday: 3,
+  thu: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6,
+  sun: 7,
+  sunday: 7,
+};
+
+export function parseWeekday(day: string | number): number {
+  if (typeof day === "number" && day >= 1 && day <= 7) return day;
+  const number = WEEKDAY_NUMBERS[String(day).trim().toLowerCase()];
+  if (!number) throw new Error(`Unknown weekday: ${day}`);
+  return number;
+}
+
+// Working hours may be fractional, so 9.5 means 09:30.
+function atHour(day: DateTime, hour: number) {
+  return day.startOf("day").plus({ minutes: Math.round(hour * 60) });
+}
+
+export function isWithinWorkingHours(
+  participant: Participant,
+  start: DateTime,
+  end: DateTime
+) {
+  const localStart = start.setZone(participant.timeZone);
+  const localEnd = end.setZone(participant.timeZone);
+  if (!participant.workingDays.includes(localStart.weekday)) return false;
+  if (participant.holidays?.has(localStart.toISODate()!)) return false;
+
+  return (
+    localStart >= atHour(localStart, participant.workingHoursStart) &&
+    localEnd <= atHour(localStart, participant.workingHoursEnd)
+  );
+}
+
+// A slot is free when it keeps the requested buffer to every busy interval:
+// bufferBefore minutes of gap before the next meeting, bufferAfter after the
+// previous one.
+export function isFree(
+  busy: BusyInterval[],
+  start: DateTime,
+  end: DateTime,
+  bufferBeforeMinutes = 0,
+  bufferAfterMinutes = 0
+) {
+  const startMs = start.toMillis();
+  const endMs = end.toMillis();
+
+  return !busy.some((interval) => {
+    const busyStart =
+      new Date(interval.start).getTime() - bufferBeforeMinutes * 60000;
+    const busyEnd =
+      new Date(interval.end).getTime() + bufferAfterMinutes * 60000;
+    return startMs < busyEnd && endMs > busyStart;
+  });
+}
+
+export function scoreSlot(
+  start: DateTime,
+  preferences: string[],
+  timeZone: string
+) {
+  const local = start.setZone(timeZone);
+  let score = 0;
+
+  for (const preference of preferences) {
+    const normalized = preference.toLowerCase().replace(/[\s_-]/g, "");
+    if (normalized === "mornings" || normalized === "morning") {
+      if (local.hour < 12) score += 5;
+    } else if (normalized === "afternoons" || normalized === "afternoon") {
+      if (local.hour >= 12) score += 5;
+    } else if (normalized.startsWith("avoid")) {
+      const day = normalized.slice("avoid".length).replace(/s$/, "");
+      if (local.weekday === parseWeekday(day)) score -= 20;
+    } else if (normalized.startsWith("prefer")) {
+      const day = normalized.slice("prefer".length).replace(/s$/, "");
+      if (local.weekday === parseWeekday(day)) score += 10;
+    } else {
+      throw new Error(
+        `Unknown preference: ${preference}. Use mornings, afternoons, avoid<Weekday> or prefer<Weekday>`
+      );
+    }
+  }
+
+  return score;
+}
+
+// Walks the 24 hours from dayStart in slotStep increments and keeps every
+// slot where all required participants are inside their working hours and
+// free. Optional participants never block a slot; each one who can attend
+// raises its score.
+export function findFreeSlots(
+  dayStart: DateTime,
+  participants: Participant[],
+  busyByCalendar: Record<string, BusyInterval[]>,
+  options: SlotOptions
+): CandidateSlot[] {
+  const slots: CandidateSlot[] = [];
+  const dayEnd = dayStart.plus({ days: 1 });
+  const required = participants.filter((p) => !p.optional);
+  const optional = participants.filter((p) => p.optional);
+
+  const canAttend = (
+    participant: Participant,
+    start: DateTime,
+    end: DateTime
+  ) =>
+    isWithinWorkingHours(participant, start, end) &&
+    isFree(
+      busyByCalendar[busyKey(participant)] || [],
+      start,
+      end,
+      options.bufferBeforeMinutes,
+      options.bufferAfterMinutes
+    );
+
+  for (
+    let start = dayStart;
+    start < dayEnd;
+    start = start.plus({ minutes: options.slotStepMinutes })
+  ) {
+    const end = start.plus({ minutes: options.meetingLengthMinutes });
+    if (options.notBefore && start < options.notBefore) continue;
+    if (!required.every((participant) => canAttend(participant, start, end))) {
+      continue;
+    }
+
+    const availableOptional = optional
+      .filter((participant) => canAttend(participant, start, end))
+      .map(busyKey);
+
+    slots.push({
+      start,
+      end,
+      score:
+        availableOptional.length * 10 +
+        scoreSlot(start, options.preferences, options.timeZone),
+      availableOptional,
+      unavailableOptional: optional
+        .map(busyKey)
+        .filter((id) => !availableOptional.includes(id)),
+    });
+  }
+
+  return slots;
+}
+
+// Best-scoring slots first, earlier ones winning ties, never overlapping.
+export function pickBestSlots(slots: CandidateSlot[], count: number) {
+  const picked: CandidateSlot[] = [];
+  const ranked = [...slots].sort(
+    (a, b) => b.score - a.score || a.start.toMillis() - b.start.toMillis()
+  );
+
+  for (const slot of ranked) {
+    if (picked.length >= count) break;
+    const overlaps = picked.some(
+      (other) => slot.start < other.end && slot.end > other.start
+    );
+    if (!overlaps) picked.push(slot);
+  }
+
+  return picked.sort((a, b) => a.start.toMillis() - b.start.toMillis());
+}
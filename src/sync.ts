@@ -0,0 +1,49 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export interface SyncState {
+  gmail?: { historyId: string; updatedAt: string };
+  calendars: Record<string, { syncToken: string; updatedAt: string }>;
+}
+
+// Checkpoints are kept separately for every configured account
+export interface SyncStateFile {
+  accounts: Record<string, SyncState>;
+}
+
+export const DEFAULT_SYNC_STATE_FILE = join(
+  homedir(),
+  ".google-workspace-mcp",
+  "sync-state.json"
+);
+
+export async function loadSyncState(path: string): Promise<SyncStateFile> {
+  try {
+    const file = JSON.parse(await readFile(path, "utf8"));
+    const accounts: Record<string, SyncState> = {};
+    for (const [name, state] of Object.entries<any>(file.accounts || {})) {
+      accounts[name] = { ...state, calendars: state.calendars || {} };
+    }
+    return { accounts };
+  } catch (error: any) {
+    if (error.code === "ENOENT") return { accounts: {} };
+    throw new Error(`Could not read sync state ${path}: ${error.message}`);
+  }
+}
+
+// Written to a temporary file first so an interrupted write never leaves a
+// truncated state file behind.
+export async function saveSyncState(path: string, state: SyncStateFile) {
+  await mkdir(dirname(path), { recursive: true });
+  const temporary = `${path}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(state, null, 2));
+  await rename(temporary, path);
+}
+
+// Calendar answers an expired sync token with 410 Gone; Gmail answers a
+// history ID that is too old with 404 Not Found.
+export function isCheckpointExpired(error: any) {
+  const status = error?.code ?? error?.response?.status;
+  return Number(status) === 410 || Number(status) === 404;
+}
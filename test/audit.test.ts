@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { sanitizeArguments } from "../src/audit.js";
+
+describe("sanitizeArguments", () => {
+  it("drops confirmation tokens and attachment data", () => {
+    assert.deepEqual(
+      sanitizeArguments({
+        to: "ann@example.com",
+        confirmationToken: "secret",
+        attachments: [{ filename: "a.txt", content: "aGVsbG8=" }],
+      }),
+      {
+        to: "ann@example.com",
+        attachments: [{ filename: "a.txt", content: "[8 base64 characters]" }],
+      }
+    );
+  });
+});
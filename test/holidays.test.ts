@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  easterSunday,
+  holidaysForRegion,
+  parseIcsHolidays,
+} from "../src/holidays.js";
+
+describe("easterSunday", () => {
+  it("computes Gregorian Easter", () => {
+    assert.equal(easterSunday(2024).toISODate(), "2024-03-31");
+    assert.equal(easterSunday(2025).toISODate(), "2025-04-20");
+  });
+});
+
+describe("holidaysForRegion", () => {
+  it("moves a Sunday holiday to the observed Monday", () => {
+    const dates = holidaysForRegion("US", 2021).map((h) => h.date);
+    assert.ok(dates.includes("2021-07-04"));
+    assert.ok(dates.includes("2021-07-05"));
+  });
+
+  it("computes nth and last weekday rules", () => {
+    const holidays = holidaysForRegion("US", 2025);
+    const date = (name: string) =>
+      holidays.find((holiday) => holiday.name === name)?.date;
+    assert.equal(date("Thanksgiving Day"), "2025-11-27");
+    assert.equal(date("Memorial Day"), "2025-05-26");
+  });
+
+  it("rejects unknown regions", () => {
+    assert.throws(() => holidaysForRegion("XX", 2025), /Unsupported/);
+  });
+});
+
+describe("parseIcsHolidays", () => {
+  it("counts every day of a multi-day event", () => {
+    const holidays = parseIcsHolidays(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20251224",
+        "DTEND;VALUE=DATE:20251227",
+        "SUMMARY:Office closed",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    assert.deepEqual(
+      holidays.map((holiday) => holiday.date),
+      ["2025-12-24", "2025-12-25", "2025-12-26"]
+    );
+    assert.equal(holidays[0].name, "Office closed");
+  });
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { describe, it } from "node:test";
+import { startHttpServer } from "../src/http.js";
+
+describe("startHttpServer", () => {
+  it("closes the session of an initialize request that was rejected", async () => {
+    let closed = 0;
+    const httpServer = await startHttpServer(
+      () => ({
+        connect: (transport) => transport.start(),
+        close: async () => {
+          closed++;
+        },
+      }),
+      {
+        port: 0,
+        host: "127.0.0.1",
+        authTokens: [],
+        allowUnauthenticated: true,
+        sessionIdleSeconds: 60,
+      }
+    );
+
+    try {
+      const { port } = httpServer.address() as AddressInfo;
+      // Without an Accept header the transport refuses the request before
+      // it ever assigns a session ID
+      const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "initialize",
+          params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: "test", version: "1.0.0" },
+          },
+        }),
+      });
+
+      assert.equal(response.status, 406);
+      assert.equal(closed, 1);
+    } finally {
+      httpServer.close();
+    }
+  });
+});
@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildVCalendar,
+  buildVTimezone,
+  fileTimeZones,
+  findComponents,
+  foldLine,
+  getProperty,
+  parseICalendar,
+  unfoldLines,
+  vEventToGoogleEvent,
+} from "../src/ics.js";
+
+function vtimezone(ics: string, zone: string) {
+  const start = ics.indexOf(`TZID:${zone}`);
+  return ics.slice(start, ics.indexOf("END:VTIMEZONE", start));
+}
+
+describe("buildVTimezone", () => {
+  it("emits both observances of a zone with daylight saving time", () => {
+    const lines = buildVTimezone("America/New_York", 2025, 2025);
+    assert.ok(lines.includes("TZOFFSETTO:-0400"));
+    assert.ok(lines.includes("TZOFFSETTO:-0500"));
+    assert.ok(lines.includes("DTSTART:20250309T020000"));
+    assert.ok(lines.includes("DTSTART:20251102T020000"));
+  });
+
+  it("falls back to a fixed offset for zones without transitions", () => {
+    const lines = buildVTimezone("Asia/Kolkata", 2025, 2025);
+    assert.ok(lines.includes("TZOFFSETFROM:+0530"));
+    assert.equal(lines.filter((line) => line === "BEGIN:STANDARD").length, 1);
+  });
+});
+
+describe("buildVCalendar", () => {
+  const weekly = {
+    id: "series",
+    iCalUID: "series@google.com",
+    summary: "Weekly sync",
+    start: {
+      dateTime: "2025-03-03T09:00:00-05:00",
+      timeZone: "America/New_York",
+    },
+    end: {
+      dateTime: "2025-03-03T09:30:00-05:00",
+      timeZone: "America/New_York",
+    },
+    recurrence: ["RRULE:FREQ=WEEKLY;UNTIL=20290101T000000Z"],
+  };
+
+  it("keeps DST transitions when an all-day series comes first", () => {
+    const ics = buildVCalendar(
+      [
+        {
+          id: "birthday",
+          summary: "Birthday",
+          start: { date: "2025-01-10" },
+          end: { date: "2025-01-11" },
+          recurrence: ["RRULE:FREQ=YEARLY"],
+        },
+        weekly,
+      ],
+      { timeZone: "America/New_York", timeMin: "2025-01-01T00:00:00Z" }
+    );
+
+    const zone = vtimezone(ics, "America/New_York");
+    assert.match(zone, /BEGIN:DAYLIGHT/);
+    assert.match(zone, /TZOFFSETTO:-0400/);
+  });
+
+  it("covers a series' transitions up to its UNTIL", () => {
+    const ics = buildVCalendar([weekly], {
+      timeZone: "America/New_York",
+      timeMin: "2025-01-01T00:00:00Z",
+      timeMax: "2025-06-01T00:00:00Z",
+    });
+
+    const zone = vtimezone(ics, "America/New_York");
+    assert.match(zone, /DTSTART:20281105T020000/);
+    assert.doesNotMatch(zone, /DTSTART:2030/);
+  });
+
+  it("writes cancelled instances as EXDATEs on their series", () => {
+    const ics = buildVCalendar(
+      [
+        weekly,
+        {
+          id: "series_20250310T140000Z",
+          status: "cancelled",
+          recurringEventId: "series",
+          originalStartTime: {
+            dateTime: "2025-03-10T09:00:00-04:00",
+            timeZone: "America/New_York",
+          },
+        },
+        {
+          id: "daily",
+          start: { date: "2025-03-01" },
+          end: { date: "2025-03-02" },
+          recurrence: ["RRULE:FREQ=DAILY;COUNT=10"],
+        },
+        {
+          id: "daily_20250305",
+          status: "cancelled",
+          recurringEventId: "daily",
+          originalStartTime: { date: "2025-03-05" },
+        },
+      ],
+      { timeZone: "America/New_York" }
+    );
+
+    const vevents = findComponents(parseICalendar(ics), "VEVENT");
+    assert.equal(vevents.length, 2);
+    assert.equal(getProperty(vevents[0], "EXDATE")?.value, "20250310T090000");
+    assert.equal(
+      getProperty(vevents[0], "EXDATE")?.params.TZID,
+      "America/New_York"
+    );
+    assert.equal(getProperty(vevents[1], "EXDATE")?.value, "20250305");
+    assert.equal(getProperty(vevents[1], "EXDATE")?.params.VALUE, "DATE");
+  });
+});
+
+describe("parsing", () => {
+  it("unfolds folded lines", () => {
+    const folded = foldLine(`DESCRIPTION:${"x".repeat(100)}`);
+    assert.ok(folded.includes("\r\n "));
+    assert.deepEqual(unfoldLines(folded), [`DESCRIPTION:${"x".repeat(100)}`]);
+  });
+
+  it("maps a VEVENT to a Google event", () => {
+    const root = parseICalendar(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:abc@example.com",
+        "DTSTART;TZID=Europe/Berlin:20250601T100000",
+        "DURATION:PT45M",
+        "SUMMARY:Planning\\, Q3",
+        "RRULE:FREQ=WEEKLY;COUNT=3",
+        "ATTENDEE;CN=Ann;PARTSTAT=ACCEPTED:mailto:ann@example.com",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    const event = vEventToGoogleEvent(findComponents(root, "VEVENT")[0], "UTC");
+
+    assert.equal(event.summary, "Planning, Q3");
+    assert.deepEqual(event.start, {
+      dateTime: "2025-06-01T10:00:00",
+      timeZone: "Europe/Berlin",
+    });
+    assert.deepEqual(event.end, {
+      dateTime: "2025-06-01T10:45:00",
+      timeZone: "Europe/Berlin",
+    });
+    assert.deepEqual(event.recurrence, ["RRULE:FREQ=WEEKLY;COUNT=3"]);
+    assert.equal(event.attendees?.[0].email, "ann@example.com");
+  });
+
+  it("resolves Windows and VTIMEZONE-defined zone names", () => {
+    const root = parseICalendar(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VTIMEZONE",
+        "TZID:Custom Plus Three",
+        "BEGIN:STANDARD",
+        "DTSTART:16010101T000000",
+        "TZOFFSETFROM:+0300",
+        "TZOFFSETTO:+0300",
+        "END:STANDARD",
+        "END:VTIMEZONE",
+        "BEGIN:VEVENT",
+        "UID:a",
+        'DTSTART;TZID="Eastern Standard Time":20250601T100000',
+        "DTEND;TZID=Custom Plus Three:20250601T180000",
+        "EXDATE;TZID=Eastern Standard Time:20250608T100000",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    const event = vEventToGoogleEvent(
+      findComponents(root, "VEVENT")[0],
+      "UTC",
+      fileTimeZones(root)
+    );
+
+    assert.equal(event.start?.timeZone, "America/New_York");
+    assert.equal(event.end?.timeZone, "Etc/GMT-3");
+    assert.deepEqual(event.recurrence, [
+      "EXDATE;TZID=America/New_York:20250608T100000",
+    ]);
+  });
+
+  it("refuses a zone it cannot resolve instead of shifting the event", () => {
+    const root = parseICalendar(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "DTSTART;TZID=Somewhere Standard Time:20250601T100000",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    assert.throws(
+      () => vEventToGoogleEvent(findComponents(root, "VEVENT")[0], "UTC"),
+      /Unknown time zone "Somewhere Standard Time"/
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Logger, LogRecord, redact } from "../src/logger.js";
+
+describe("redact", () => {
+  it("keeps email domains and drops content fields", () => {
+    assert.deepEqual(
+      redact({ to: "ann@example.com", body: "Hello", nested: { raw: "x" } }),
+      {
+        to: "***@example.com",
+        body: "[redacted]",
+        nested: { raw: "[redacted]" },
+      }
+    );
+  });
+});
+
+describe("Logger", () => {
+  it("tags records with the session they were logged in", async () => {
+    const logger = new Logger("emergency");
+    const records: LogRecord[] = [];
+    logger.subscribe((record) => records.push(record));
+
+    logger.info("test", "server wide");
+    await logger.runInSession("a", async () => {
+      await Promise.resolve();
+      logger.info("test", "from a");
+    });
+
+    assert.equal(records[0].session, undefined);
+    assert.equal(records[1].session, "a");
+  });
+});
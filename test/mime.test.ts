@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildMimeMessage,
+  encodeBase64Url,
+  encodeHeader,
+  extractEmailAddress,
+  extractMessageContent,
+  parseAddressList,
+  previewMimeMessage,
+} from "../src/mime.js";
+
+describe("addresses", () => {
+  it("keeps quoted commas inside one address", () => {
+    assert.deepEqual(
+      parseAddressList('"Doe, Jane" <jane@example.com>, bob@example.com'),
+      ['"Doe, Jane" <jane@example.com>', "bob@example.com"]
+    );
+  });
+
+  it("extracts and lowercases the address", () => {
+    assert.equal(
+      extractEmailAddress("Jane <Jane@Example.com>"),
+      "jane@example.com"
+    );
+  });
+});
+
+describe("buildMimeMessage", () => {
+  it("encodes non-ASCII subjects", () => {
+    assert.equal(encodeHeader("Plain"), "Plain");
+    assert.equal(encodeHeader("Grüße"), "=?UTF-8?B?R3LDvMOfZQ==?=");
+  });
+
+  it("writes threading headers", () => {
+    const message = buildMimeMessage({
+      to: "ann@example.com",
+      subject: "Re: Report",
+      body: "<p>Thanks</p>",
+      inReplyTo: "<a@mail>",
+      references: "<root@mail> <a@mail>",
+    });
+
+    assert.match(message, /\r\nIn-Reply-To: <a@mail>\r\n/);
+    assert.match(message, /\r\nReferences: <root@mail> <a@mail>\r\n/);
+  });
+
+  it("never lets a header value start a new header", () => {
+    assert.throws(
+      () =>
+        buildMimeMessage({
+          to: "<ann@example.com>\r\nBcc: eve@example.net",
+          subject: "Hi",
+          body: "Hi",
+        }),
+      /line breaks/
+    );
+
+    const message = buildMimeMessage({
+      to: "ann@example.com",
+      subject: "Hi\r\nBcc: eve@example.net",
+      body: "Hi",
+      references: "<a@mail>\r\nBcc: eve@example.net",
+    });
+    const head = message.slice(0, message.indexOf("\r\n\r\n"));
+    assert.doesNotMatch(head, /\r\nBcc:/);
+  });
+
+  it("attaches files as base64 parts", () => {
+    const message = buildMimeMessage({
+      to: "ann@example.com",
+      subject: "Report",
+      body: "<p>Attached</p>",
+      attachments: [
+        {
+          filename: "notes.txt",
+          mimeType: "text/plain",
+          content: Buffer.from("hello"),
+        },
+      ],
+    });
+
+    assert.match(message, /^Content-Type: multipart\/mixed; boundary="mixed_/);
+    assert.match(message, /filename="notes.txt"/);
+    assert.match(message, /\r\naGVsbG8=\r\n/);
+
+    const preview = previewMimeMessage(message);
+    assert.deepEqual(preview.recipients.to, ["ann@example.com"]);
+    assert.match(preview.mime, /\[5 bytes of attachment data\]/);
+    assert.doesNotMatch(preview.mime, /aGVsbG8=/);
+  });
+});
+
+describe("extractMessageContent", () => {
+  it("picks bodies, attachments and calendar parts from the MIME tree", () => {
+    const content = extractMessageContent({
+      mimeType: "multipart/mixed",
+      parts: [
+        {
+          mimeType: "multipart/alternative",
+          parts: [
+            {
+              mimeType: "text/plain",
+              body: { data: encodeBase64Url("Hello") },
+            },
+            {
+              mimeType: "text/html",
+              body: { data: encodeBase64Url("<b>Hello</b>") },
+            },
+            {
+              mimeType: "text/calendar",
+              body: { data: encodeBase64Url("BEGIN:VCALENDAR") },
+            },
+          ],
+        },
+        {
+          mimeType: "application/pdf",
+          filename: "invoice.pdf",
+          body: { attachmentId: "att-1", size: 1024 },
+        },
+      ],
+    });
+
+    assert.equal(content.text, "Hello");
+    assert.equal(content.html, "<b>Hello</b>");
+    assert.equal(content.calendarParts.length, 1);
+    assert.deepEqual(content.attachments, [
+      {
+        filename: "invoice.pdf",
+        mimeType: "application/pdf",
+        size: 1024,
+        attachmentId: "att-1",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PolicyEngine } from "../src/policy.js";
+
+describe("PolicyEngine recipients", () => {
+  const policy = new PolicyEngine({
+    recipients: { allowDomains: ["ok.com"], maxRecipients: 1 },
+  });
+
+  it("allows a named address inside the allowed domains", () => {
+    policy.checkToolCall("send_email", { to: '"Doe, Ann" <ann@ok.com>' });
+  });
+
+  it("refuses recipients that smuggle in another header", () => {
+    assert.throws(
+      () =>
+        policy.checkToolCall("send_email", {
+          to: "<a@ok.com>\r\nBcc: x@evil.com",
+        }),
+      /not a single email address/
+    );
+  });
+
+  it("refuses entries with more than one address", () => {
+    assert.throws(
+      () =>
+        policy.checkToolCall("send_email", { to: "<a@ok.com> <x@evil.com>" }),
+      /not a single email address/
+    );
+  });
+});
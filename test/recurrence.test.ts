@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildRecurrence, parseRecurrenceText } from "../src/recurrence.js";
+
+describe("parseRecurrenceText", () => {
+  it("reads weekdays and an end date", () => {
+    assert.deepEqual(
+      parseRecurrenceText("weekly on Mon/Wed until 2025-06-30"),
+      {
+        frequency: "weekly",
+        interval: undefined,
+        byWeekday: ["MO", "WE"],
+        until: "2025-06-30",
+        count: undefined,
+      }
+    );
+  });
+
+  it("reads an interval and a count", () => {
+    const spec = parseRecurrenceText("every 2 weeks on Friday for 5 times");
+    assert.equal(spec.interval, 2);
+    assert.equal(spec.count, 5);
+    assert.deepEqual(spec.byWeekday, ["FR"]);
+  });
+
+  it("rejects phrases it does not understand", () => {
+    assert.throws(() => parseRecurrenceText("now and then"), /understand/);
+  });
+});
+
+describe("buildRecurrence", () => {
+  it("expresses UNTIL of a timed event in UTC at the end of the day", () => {
+    assert.deepEqual(
+      buildRecurrence("weekly on Mon until 2025-06-30", {
+        allDay: false,
+        timeZone: "America/New_York",
+      }),
+      ["RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250701T035959Z"]
+    );
+  });
+
+  it("uses a DATE UNTIL for all-day events", () => {
+    assert.deepEqual(
+      buildRecurrence(
+        { frequency: "monthly", interval: 3, until: "2026-01-31" },
+        { allDay: true, timeZone: "UTC" }
+      ),
+      ["RRULE:FREQ=MONTHLY;INTERVAL=3;UNTIL=20260131"]
+    );
+  });
+
+  it("passes raw lines through", () => {
+    const lines = ["RRULE:FREQ=DAILY;COUNT=3", "EXDATE:20250102T090000Z"];
+    assert.deepEqual(
+      buildRecurrence(lines, { allDay: false, timeZone: "UTC" }),
+      lines
+    );
+  });
+
+  it("refuses both an end date and a count", () => {
+    assert.throws(
+      () =>
+        buildRecurrence(
+          { frequency: "daily", until: "2025-01-31", count: 3 },
+          { allDay: false, timeZone: "UTC" }
+        ),
+      /not both/
+    );
+  });
+});
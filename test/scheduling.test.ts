@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { DateTime } from "luxon";
+import { describe, it } from "node:test";
+import {
+  findFreeSlots,
+  isFree,
+  isWithinWorkingHours,
+  Participant,
+  pickBestSlots,
+} from "../src/scheduling.js";
+
+const berlin: Participant = {
+  calendarId: "ann@example.com",
+  timeZone: "Europe/Berlin",
+  workingHoursStart: 9,
+  workingHoursEnd: 17,
+  workingDays: [1, 2, 3, 4, 5],
+  optional: false,
+};
+
+const utc = (iso: string) => DateTime.fromISO(iso, { zone: "UTC" });
+
+describe("isWithinWorkingHours", () => {
+  it("uses the participant's timezone", () => {
+    // 07:30 UTC is 09:30 in Berlin during summer time
+    assert.ok(
+      isWithinWorkingHours(
+        berlin,
+        utc("2025-06-02T07:30:00"),
+        utc("2025-06-02T08:30:00")
+      )
+    );
+    assert.ok(
+      !isWithinWorkingHours(
+        berlin,
+        utc("2025-06-02T06:30:00"),
+        utc("2025-06-02T07:30:00")
+      )
+    );
+  });
+
+  it("skips weekends and holidays", () => {
+    assert.ok(
+      !isWithinWorkingHours(
+        berlin,
+        utc("2025-06-07T10:00:00"),
+        utc("2025-06-07T11:00:00")
+      )
+    );
+    assert.ok(
+      !isWithinWorkingHours(
+        { ...berlin, holidays: new Map([["2025-06-09", "Whit Monday"]]) },
+        utc("2025-06-09T10:00:00"),
+        utc("2025-06-09T11:00:00")
+      )
+    );
+  });
+});
+
+describe("isFree", () => {
+  const busy = [{ start: "2025-06-02T10:00:00Z", end: "2025-06-02T11:00:00Z" }];
+
+  it("detects overlaps", () => {
+    assert.ok(
+      !isFree(busy, utc("2025-06-02T10:30:00"), utc("2025-06-02T11:30:00"))
+    );
+    assert.ok(
+      isFree(busy, utc("2025-06-02T11:00:00"), utc("2025-06-02T12:00:00"))
+    );
+  });
+
+  it("keeps the buffer after a busy interval", () => {
+    assert.ok(
+      !isFree(
+        busy,
+        utc("2025-06-02T11:00:00"),
+        utc("2025-06-02T12:00:00"),
+        0,
+        15
+      )
+    );
+  });
+});
+
+describe("findFreeSlots and pickBestSlots", () => {
+  it("finds free slots and prefers mornings without overlap", () => {
+    const slots = findFreeSlots(
+      DateTime.fromISO("2025-06-02T00:00:00", { zone: "Europe/Berlin" }),
+      [berlin],
+      {
+        "ann@example.com": [
+          { start: "2025-06-02T08:00:00Z", end: "2025-06-02T12:00:00Z" },
+        ],
+      },
+      {
+        meetingLengthMinutes: 60,
+        slotStepMinutes: 30,
+        bufferBeforeMinutes: 0,
+        bufferAfterMinutes: 0,
+        preferences: ["mornings"],
+        timeZone: "Europe/Berlin",
+      }
+    );
+
+    // Free in Berlin from 09:00 to 10:00 and from 14:00 to 17:00
+    assert.deepEqual(
+      slots.map((slot) => slot.start.toFormat("HH:mm")),
+      ["09:00", "14:00", "14:30", "15:00", "15:30", "16:00"]
+    );
+
+    const best = pickBestSlots(slots, 3);
+    assert.deepEqual(
+      best.map((slot) => slot.start.toFormat("HH:mm")),
+      ["09:00", "14:00", "15:00"]
+    );
+  });
+});